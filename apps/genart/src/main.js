@@ -1,3 +1,4 @@
+import { parseMessage, PROTOCOL_VERSION } from "@chiba-cable/protocol";
 import "./style.css";
 
 const canvas = document.querySelector("#canvas");
@@ -13,6 +14,11 @@ const palettes = {
 };
 
 const controlSchema = [
+  {
+    id: "flow",
+    label: "Flow",
+    type: "group",
+  },
   {
     id: "speed",
     label: "Drift",
@@ -49,6 +55,11 @@ const controlSchema = [
     step: 0.05,
     value: 0.9,
   },
+  {
+    id: "look",
+    label: "Look",
+    type: "group",
+  },
   {
     id: "palette",
     label: "Palette",
@@ -70,6 +81,36 @@ const controlSchema = [
       { value: "rift", label: "Rift" },
     ],
   },
+  {
+    id: "spark",
+    label: "Spark",
+    type: "color",
+    value: "#ffffff",
+  },
+  {
+    id: "caption",
+    label: "Caption",
+    type: "text",
+    placeholder: "Say something",
+    maxLength: 40,
+    value: "",
+  },
+  {
+    id: "play",
+    label: "Play",
+    type: "group",
+  },
+  {
+    id: "origin",
+    label: "Vortex",
+    type: "xy",
+    value: { x: 0.5, y: 0.5 },
+  },
+  {
+    id: "freeze",
+    label: "Freeze",
+    type: "trigger",
+  },
   {
     id: "pulse",
     label: "Pulse",
@@ -84,9 +125,17 @@ const state = {
   stroke: 0.9,
   palette: "aurora",
   mode: "flow",
+  spark: "#ffffff",
+  caption: "",
+  origin: { x: 0.5, y: 0.5 },
+  freeze: false,
   pulse: 0,
+  tilt: { x: 0, y: 0 },
+  mic: 0,
 };
 
+const sensors = ["tilt", "shake", "mic"];
+
 const particles = [];
 let width = 0;
 let height = 0;
@@ -131,8 +180,10 @@ function makeParticle() {
 }
 
 function fieldAngle(x, y, t) {
-  const nx = x * state.field;
-  const ny = y * state.field;
+  const ox = state.origin.x + state.tilt.x * 0.25;
+  const oy = state.origin.y + state.tilt.y * 0.25;
+  const nx = (x - ox * width) * state.field;
+  const ny = (y - oy * height) * state.field;
   if (state.mode === "orbital") {
     return Math.sin(nx + t * 0.6) * 2 + Math.cos(ny - t * 0.8);
   }
@@ -149,11 +200,11 @@ function fieldAngle(x, y, t) {
 function step(time) {
   const delta = Math.min(64, time - lastTime);
   lastTime = time;
-  const t = time * 0.0005 * state.speed;
+  const t = time * 0.0005 * (state.freeze ? 0 : state.speed);
   ctx.fillStyle = "rgba(6, 10, 18, 0.08)";
   ctx.fillRect(0, 0, width, height);
 
-  const palette = palettes[state.palette] ?? palettes.aurora;
+  const palette = [...(palettes[state.palette] ?? palettes.aurora), state.spark];
   const lineWidth = state.stroke;
   ctx.lineWidth = lineWidth;
   ctx.globalCompositeOperation = "lighter";
@@ -161,7 +212,8 @@ function step(time) {
   for (let i = 0; i < particles.length; i += 1) {
     const p = particles[i];
     const angle = fieldAngle(p.x, p.y, t);
-    const speed = 0.5 + state.speed * 0.9;
+    const boost = 1 + state.mic;
+    const speed = state.freeze ? 0 : (0.5 + state.speed * 0.9) * boost;
     p.vx = Math.cos(angle) * speed;
     p.vy = Math.sin(angle) * speed;
     const nx = p.x + p.vx;
@@ -190,6 +242,12 @@ function step(time) {
   }
 
   ctx.globalCompositeOperation = "source-over";
+  if (state.caption) {
+    ctx.font = "600 28px system-ui, sans-serif";
+    ctx.textAlign = "center";
+    ctx.fillStyle = state.spark;
+    ctx.fillText(state.caption, width / 2, height - 48);
+  }
   requestAnimationFrame(step);
 }
 
@@ -208,9 +266,31 @@ function applyControl(controlId, value) {
   }
 }
 
+// Phone sensors arrive as controls the schema doesn't declare.
+function applySensor(controlId, value) {
+  if (!Number.isFinite(value)) return false;
+  if (controlId === "tiltX") state.tilt.x = value;
+  else if (controlId === "tiltY") state.tilt.y = value;
+  else if (controlId === "micLevel") state.mic = value;
+  else if (controlId === "shake") rebuildParticles();
+  else return false;
+  return true;
+}
+
 function coerceValue(control, value) {
   if (control.type === "range") return Number(value);
-  if (control.type === "toggle") return Boolean(value);
+  if (control.type === "toggle" || control.type === "trigger") {
+    return Boolean(value);
+  }
+  if (control.type === "xy") {
+    return {
+      x: Number(value?.x ?? control.value.x),
+      y: Number(value?.y ?? control.value.y),
+    };
+  }
+  if (control.type === "color" || control.type === "text") {
+    return String(value ?? "");
+  }
   return value;
 }
 
@@ -241,25 +321,32 @@ function boot() {
 
   socket.addEventListener("open", () => {
     hudStatus.textContent = "ws: live";
+    socket.send(
+      JSON.stringify({ type: "hello", role: "app", protocol: PROTOCOL_VERSION })
+    );
     socket.send(
       JSON.stringify({
         type: "controls",
         appId,
         controls: controlSchema,
+        sensors,
       })
     );
   });
 
   socket.addEventListener("message", (event) => {
-    try {
-      const msg = JSON.parse(event.data);
-      if (msg.type !== "control" || msg.appId !== appId) return;
-      const control = controlSchema.find((item) => item.id === msg.controlId);
-      if (!control) return;
-      applyControl(control.id, coerceValue(control, msg.value));
-    } catch {
-      // ignore
+    const result = parseMessage(event.data);
+    if (!result.ok) return;
+    const msg = result.message;
+    if (msg.type === "error") {
+      console.warn("[genart] server rejected message", msg.code, msg.message);
+      return;
     }
+    if (msg.type !== "control" || msg.appId !== appId) return;
+    if (applySensor(msg.controlId, Number(msg.value))) return;
+    const control = controlSchema.find((item) => item.id === msg.controlId);
+    if (!control) return;
+    applyControl(control.id, coerceValue(control, msg.value));
   });
 
   socket.addEventListener("close", () => {
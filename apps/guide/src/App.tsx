@@ -46,28 +46,44 @@ import {
   PARAM_RETURN_ROW,
   PARAM_SCALE,
   PARAM_SCREEN_KEYS,
+  PARAM_SCREEN_TOKEN,
+  PARAM_GROUP_KEYS,
   PARAM_SPLASH,
   PARAM_TEXT_SCALE_KEYS,
   PARAM_THEME,
 } from "./constants/params";
 import { usePreloadManager } from "./hooks/usePreloadManager";
 import { useRemoteControls } from "./hooks/useRemoteControls";
+import {
+  useRemotePairing,
+  type RemoteAuth,
+} from "./hooks/useRemotePairing";
 import { useRemoteSocket } from "./hooks/useRemoteSocket";
+import { useServerClock } from "./hooks/useServerClock";
 import {
   clamp,
   ensureSystemChannels,
   getCurrentSlotIndex,
+  getDayPageSlot,
   isHiddenChannel,
   normalizeChannelNumber,
 } from "./lib/guide";
 import { createLogger } from "./lib/logger";
 import { getAppIdFromUrl, getMediaKind } from "./lib/media";
 import { appendQueryParam, getFirstParam, parseBooleanParam } from "./lib/queryParams";
-import { buildRemoteUrls } from "./lib/remote";
+import {
+  buildRemoteUrls,
+  getQrImageUrl,
+  getTargetScreenIds,
+  withPairCode,
+} from "./lib/remote";
 import {
   loadAudioSettings,
   loadDisplaySettings,
+  ensureScreenId,
+  loadRemoteTarget,
   loadScreenId,
+  saveRemoteTarget,
   saveAudioSettings,
 } from "./lib/storage";
 import {
@@ -75,10 +91,13 @@ import {
   type DisplayTuningPayload,
 } from "./components/DisplayTuningPanel";
 import { SplashScreen } from "./components/SplashScreen";
+import { TakeoverLayer } from "./components/TakeoverLayer";
 import { ArtView } from "./views/ArtView";
 import { GuideView } from "./views/GuideView";
 import { RemoteView } from "./views/RemoteView";
 import type {
+  CaptureDebugStats,
+  ConfigDiagnostics,
   DisplaySettings,
   GuideChannel,
   GuideIndex,
@@ -87,6 +106,8 @@ import type {
   ProgramSlot,
   AudioSettings,
   RemoteMessage,
+  ScreenSummary,
+  TakeoverState,
   ViewMode,
 } from "./types/guide";
 
@@ -109,9 +130,11 @@ function App() {
   const noSplashParam = params.get(PARAM_NO_SPLASH);
   const muteParam = getFirstParam(params, PARAM_MUTE_KEYS);
   const screenParam = getFirstParam(params, PARAM_SCREEN_KEYS);
+  const groupParam = getFirstParam(params, PARAM_GROUP_KEYS);
+  const screenTokenParam = params.get(PARAM_SCREEN_TOKEN);
   const embedDebugParam = params.get(PARAM_EMBED_DEBUG);
-  const [, setScreenId] = useState(() =>
-    screenParam ? screenParam : loadScreenId()
+  const [screenId, setScreenId] = useState(() =>
+    screenParam ? screenParam : isRemote ? loadScreenId() : ensureScreenId()
   );
   const [displaySettings, setDisplaySettings] = useState<DisplaySettings>(() =>
     loadDisplaySettings()
@@ -234,9 +257,16 @@ function App() {
         now,
         indexData.startTime,
         indexData.slotMinutes,
-        slotCount
+        slotCount,
+        indexData.slotTimes
       ),
-    [now, indexData.startTime, indexData.slotMinutes, slotCount]
+    [
+      now,
+      indexData.startTime,
+      indexData.slotMinutes,
+      slotCount,
+      indexData.slotTimes,
+    ]
   );
   const [visibleStartSlot, setVisibleStartSlot] = useState(0);
 
@@ -261,6 +291,11 @@ function App() {
     limit: number;
   } | null>(null);
   const [mediaStats, setMediaStats] = useState<MediaDebugStats | null>(null);
+  const [configDiagnostics, setConfigDiagnostics] =
+    useState<ConfigDiagnostics | null>(null);
+  const [captureStats, setCaptureStats] = useState<CaptureDebugStats | null>(
+    null
+  );
   const [remoteGodmodeOpen, setRemoteGodmodeOpen] = useState(false);
   const [remoteNowChannel, setRemoteNowChannel] = useState<{
     id?: string;
@@ -274,6 +309,20 @@ function App() {
   const [activeRemoteAppId, setActiveRemoteAppId] =
     useState(requestedRemoteAppId);
   const [remotePanel, setRemotePanel] = useState<"remote" | "app">("remote");
+  const [takeover, setTakeover] = useState<TakeoverState | null>(null);
+  const [screens, setScreens] = useState<ScreenSummary[]>([]);
+  const [syncGroup, setSyncGroup] = useState<{
+    groups: string[];
+    toleranceMs: number;
+  } | null>(null);
+  const [remoteTarget, setRemoteTarget] = useState(() => loadRemoteTarget());
+  const [remoteScreenStatus, setRemoteScreenStatus] = useState<{
+    volume?: number;
+    muted?: boolean;
+  } | null>(null);
+  const [remoteAuth, setRemoteAuth] = useState<RemoteAuth | null>(null);
+  const [pairCode, setPairCode] = useState<string | null>(null);
+  const remotePairing = useRemotePairing(viewMode === "remote");
 
   const pauseUntilRef = useRef(0);
   const autoHoldUntilRef = useRef(0);
@@ -289,6 +338,9 @@ function App() {
   const lastCurrentSlotRef = useRef<number>(currentSlotIndex);
   const dialTimeoutRef = useRef<number | null>(null);
   const sendRef = useRef<((msg: RemoteMessage) => void) | null>(null);
+  const clockHandlerRef = useRef<
+    ((msg: Extract<RemoteMessage, { type: "clock" }>) => void) | null
+  >(null);
   const dialOverlayTimerRef = useRef<number | null>(null);
 
   const getViewportMetrics = useCallback(() => {
@@ -368,6 +420,16 @@ function App() {
     [channels, selectedRow, currentSlotIndex]
   );
 
+  const pageDay = useCallback(
+    (dir: "prev" | "next" | "today") => {
+      pauseUntilRef.current = Date.now() + USER_PAUSE_MS;
+      setSelectedCol((prev) =>
+        getDayPageSlot(indexData.slotTimes, prev, currentSlotIndex, dir)
+      );
+    },
+    [indexData.slotTimes, currentSlotIndex]
+  );
+
   const [isPaused, setIsPaused] = useState(false);
   useEffect(() => {
     const check = () => {
@@ -527,6 +589,10 @@ function App() {
         subtitle: program.subtitle,
         channelName: channel.name,
         callSign: channel.callSign,
+        startAt: program.startAt,
+        durationSec: program.durationSec,
+        mediaDurationSec: program.mediaDurationSec,
+        fillerUrl: program.fillerUrl,
       });
       sendRef.current?.({
         type: "now",
@@ -753,7 +819,80 @@ function App() {
     });
   }, []);
 
+  useEffect(() => {
+    if (!takeover?.until) return;
+    const remaining = takeover.until - Date.now();
+    const timer = window.setTimeout(
+      () => setTakeover(null),
+      Math.max(0, remaining)
+    );
+    return () => window.clearTimeout(timer);
+  }, [takeover]);
+
+  const socketHello = useMemo<Extract<RemoteMessage, { type: "hello" }>>(
+    () =>
+      viewMode === "remote"
+        ? {
+            type: "hello",
+            role: "remote",
+            target: remoteTarget,
+            token: remotePairing.token || undefined,
+          }
+        : {
+            type: "hello",
+            role: "screen",
+            screenId,
+            view: viewMode,
+            token: screenTokenParam || undefined,
+            groups: (groupParam ?? "")
+              .split(",")
+              .map((group) => group.trim())
+              .filter(Boolean),
+          },
+    [
+      viewMode,
+      screenId,
+      groupParam,
+      screenTokenParam,
+      remoteTarget,
+      remotePairing.token,
+    ]
+  );
+  const remoteTargetScreenIds = useMemo(
+    () => getTargetScreenIds(remoteTarget, screens),
+    [remoteTarget, screens]
+  );
+
+  const handleRemoteTargetChange = useCallback((target: string) => {
+    setRemoteTarget(target);
+    saveRemoteTarget(target);
+    setRemoteNowChannel(null);
+    setRemoteScreenStatus(null);
+  }, []);
+
   const { send, status } = useRemoteSocket((msg) => {
+    if (msg.type === "welcome") {
+      if (viewMode !== "remote") return;
+      setRemoteAuth({
+        pairingRequired: msg.pairingRequired,
+        pairedScreenId: msg.pairedScreenId,
+        admin: msg.admin,
+      });
+      // A paired phone only ever drives its own screen.
+      const pairedTarget = msg.pairedScreenId
+        ? `screen:${msg.pairedScreenId}`
+        : null;
+      if (pairedTarget && !msg.admin && pairedTarget !== remoteTarget) {
+        handleRemoteTargetChange(pairedTarget);
+      }
+      return;
+    }
+    if (msg.type === "pairing") {
+      if (viewMode !== "remote") {
+        setPairCode(msg.code);
+      }
+      return;
+    }
     if (msg.type === "display") {
       applyDisplaySettings(msg);
       return;
@@ -776,7 +915,52 @@ function App() {
       }
       return;
     }
+    if (msg.type === "takeover") {
+      if (viewMode !== "remote") {
+        setTakeover(
+          msg.active
+            ? {
+                url: msg.url,
+                title: msg.title,
+                message: msg.message,
+                until: msg.until ?? null,
+                startedAt: msg.startedAt,
+              }
+            : null
+        );
+      }
+      return;
+    }
+    if (msg.type === "screens") {
+      setScreens(msg.screens);
+      return;
+    }
+    if (msg.type === "clock") {
+      clockHandlerRef.current?.(msg);
+      return;
+    }
+    if (msg.type === "group") {
+      setSyncGroup(
+        msg.groups.length && msg.syncToleranceMs !== null
+          ? { groups: msg.groups, toleranceMs: msg.syncToleranceMs }
+          : null
+      );
+      return;
+    }
+    if (msg.type === "reload") {
+      if (viewMode !== "remote") {
+        window.location.reload();
+      }
+      return;
+    }
     if (viewMode === "remote") {
+      if (
+        msg.from &&
+        remoteTargetScreenIds &&
+        !remoteTargetScreenIds.includes(msg.from)
+      ) {
+        return;
+      }
       if (msg.type === "app") {
         const nextAppId = msg.appId ?? "";
         if (requestedRemoteAppId) return;
@@ -790,6 +974,9 @@ function App() {
           );
         }
       }
+      if (msg.type === "status") {
+        setRemoteScreenStatus({ volume: msg.volume, muted: msg.muted });
+      }
       if (msg.type === "now") {
         setRemoteNowChannel({
           id: msg.channelId,
@@ -856,6 +1043,12 @@ function App() {
       }
       return;
     }
+    if (msg.type === "day") {
+      if (viewMode === "guide" && !playerOpen) {
+        pageDay(msg.dir);
+      }
+      return;
+    }
     if (msg.type === "nav") {
       if (viewMode === "art") {
         const artItems =
@@ -878,14 +1071,41 @@ function App() {
         handleSelect();
       }
     }
+  }, {
+    hello: socketHello,
+    target: viewMode === "remote" ? remoteTarget : undefined,
   });
 
-  const { remoteControls, remoteControlsStatus, handleRemoteControl } =
-    useRemoteControls({
-      viewMode,
-      activeRemoteAppId,
-      send,
+  const { offsetMs: clockOffsetMs, handleClockMessage } = useServerClock(
+    send,
+    status,
+    viewMode !== "remote"
+  );
+
+  useEffect(() => {
+    clockHandlerRef.current = handleClockMessage;
+  }, [handleClockMessage]);
+
+  const {
+    remoteControls,
+    remoteSensors,
+    remoteControlsStatus,
+    handleRemoteControl,
+  } = useRemoteControls({
+    viewMode,
+    activeRemoteAppId,
+    send,
+  });
+
+  useEffect(() => {
+    if (viewMode === "remote" || status !== "open") return;
+    send({
+      type: "status",
+      view: viewMode,
+      volume: masterVolume,
+      muted: masterMuted,
     });
+  }, [viewMode, status, masterVolume, masterMuted, send]);
 
   const handleDisplayChange = useCallback(
     (payload: DisplayTuningPayload) => {
@@ -1098,6 +1318,64 @@ function App() {
     };
   }, [showDebug]);
 
+  useEffect(() => {
+    if (!showDebug) {
+      setConfigDiagnostics(null);
+      return;
+    }
+    let cancelled = false;
+    const fetchDiagnostics = async () => {
+      try {
+        const res = await fetch("/api/config/diagnostics");
+        if (!res.ok) {
+          log.warn("config-diagnostics-status", { status: res.status });
+          return;
+        }
+        const data = (await res.json()) as ConfigDiagnostics;
+        if (!cancelled) {
+          setConfigDiagnostics(data);
+        }
+      } catch (error) {
+        log.warn("config-diagnostics-failed", error);
+      }
+    };
+    void fetchDiagnostics();
+    const interval = window.setInterval(fetchDiagnostics, 10000);
+    return () => {
+      cancelled = true;
+      window.clearInterval(interval);
+    };
+  }, [showDebug]);
+
+  useEffect(() => {
+    if (!showDebug) {
+      setCaptureStats(null);
+      return;
+    }
+    let cancelled = false;
+    const fetchCaptures = async () => {
+      try {
+        const res = await fetch("/api/captures");
+        if (!res.ok) {
+          log.warn("capture-stats-status", { status: res.status });
+          return;
+        }
+        const data = (await res.json()) as CaptureDebugStats;
+        if (!cancelled) {
+          setCaptureStats(data);
+        }
+      } catch (error) {
+        log.warn("capture-stats-failed", error);
+      }
+    };
+    void fetchCaptures();
+    const interval = window.setInterval(fetchCaptures, 2000);
+    return () => {
+      cancelled = true;
+      window.clearInterval(interval);
+    };
+  }, [showDebug]);
+
   useEffect(() => {
     if (!prevPausedRef.current && isPaused) {
       const bounds = getScrollBounds();
@@ -1401,6 +1679,14 @@ function App() {
         return;
       }
       if (viewMode === "guide") {
+        if (
+          !playerOpen &&
+          (key === "," || key === "<" || key === "." || key === ">")
+        ) {
+          event.preventDefault();
+          pageDay(key === "," || key === "<" ? "prev" : "next");
+          return;
+        }
         if (channelUp) {
           event.preventDefault();
           moveSelection("up");
@@ -1453,6 +1739,7 @@ function App() {
   }, [
     adjustVolume,
     moveSelection,
+    pageDay,
     viewMode,
     channels,
     channelId,
@@ -1464,6 +1751,14 @@ function App() {
 
   const progressValue = useMemo(() => {
     if (!selectedProgram) return 0;
+    if (selectedProgram.startAt && selectedProgram.endAt) {
+      const durationMs = Math.max(
+        1,
+        selectedProgram.endAt - selectedProgram.startAt
+      );
+      const elapsed = now.getTime() - selectedProgram.startAt;
+      return clamp(elapsed / durationMs, 0, 1) * 100;
+    }
     const parts = indexData.startTime.split(":");
     const startHour = Number.parseInt(parts[0] ?? "", 10);
     const startMinute = Number.parseInt(parts[1] ?? "", 10);
@@ -1488,7 +1783,6 @@ function App() {
   const [remoteOverride, setRemoteOverride] = useState<{
     baseUrl: string;
     remoteUrl: string;
-    qrUrl: string;
   } | null>(null);
   useEffect(() => {
     let alive = true;
@@ -1502,11 +1796,10 @@ function App() {
     fetch(`/api/remote?guide_port=${guidePort}&scheme=${scheme}`)
       .then((res) => (res.ok ? res.json() : null))
       .then((data) => {
-        if (!alive || !data?.baseUrl || !data?.qrUrl) return;
+        if (!alive || !data?.baseUrl || !data?.remoteUrl) return;
         setRemoteOverride({
           baseUrl: data.baseUrl as string,
           remoteUrl: data.remoteUrl as string,
-          qrUrl: data.qrUrl as string,
         });
       })
       .catch(() => {});
@@ -1514,12 +1807,16 @@ function App() {
       alive = false;
     };
   }, []);
-  const { qrUrl } = buildRemoteUrls({
+  const { remoteUrl } = buildRemoteUrls({
     hostOverride,
     forceHttps,
     metaRemote: remoteOverride?.baseUrl ?? metaRemote,
   });
-  const qrImageUrl = remoteOverride?.qrUrl ?? qrUrl;
+  const qrTargetUrl = remoteOverride?.remoteUrl ?? remoteUrl;
+  const qrImageUrl = getQrImageUrl(
+    pairCode ? withPairCode(qrTargetUrl, pairCode) : qrTargetUrl,
+    THEME_MAP[activeThemeId]?.qr
+  );
 
   useEffect(() => {
     if (viewMode !== "guide") return;
@@ -1579,6 +1876,13 @@ function App() {
     return (
       <RemoteView
         status={status}
+        screens={screens}
+        remoteTarget={remoteTarget}
+        onRemoteTargetChange={handleRemoteTargetChange}
+        remoteAuth={remoteAuth}
+        pairing={remotePairing}
+        nowChannel={remoteNowChannel}
+        screenStatus={remoteScreenStatus}
         uiScale={uiScale}
         textScale={textScale}
         visibleHours={visibleHours}
@@ -1596,6 +1900,8 @@ function App() {
         hasAppControls={hasAppControls}
         remoteControlsStatus={remoteControlsStatus}
         remoteControls={remoteControls}
+        remoteSensors={remoteSensors}
+        activeRemoteAppId={activeRemoteAppId}
         handleRemoteControl={handleRemoteControl}
         remotePanel={remotePanel}
         setRemotePanel={setRemotePanel}
@@ -1603,6 +1909,8 @@ function App() {
         showDebug={showDebug}
         memoryStats={memoryStats}
         mediaStats={mediaStats}
+        configDiagnostics={configDiagnostics}
+        captureStats={captureStats}
         dialOverlay={dialOverlay}
       />
     );
@@ -1619,11 +1927,14 @@ function App() {
           showDebug={showDebug}
           memoryStats={memoryStats}
           mediaStats={mediaStats}
+          configDiagnostics={configDiagnostics}
+          captureStats={captureStats}
           dialOverlay={dialOverlay}
           masterVolume={masterVolume}
-          masterMuted={masterMuted}
+          masterMuted={masterMuted || Boolean(takeover)}
           showVolumeHud={showVolumeHud}
         />
+        <TakeoverLayer takeover={takeover} masterMuted={masterMuted} />
         {displayTuningOverlay}
       </>
     );
@@ -1660,20 +1971,26 @@ function App() {
         onToggleDebug={() => setShowDebug((prev) => !prev)}
         showQr={showQr}
         qrUrl={qrImageUrl}
+        pairCode={pairCode}
         playerUrl={playerUrl}
         playerKind={playerKind}
         playerMeta={playerMeta}
         showPlayerHud={showPlayerHud}
         ambientAudio={ambientAudio}
         masterVolume={masterVolume}
-        masterMuted={masterMuted}
+        masterMuted={masterMuted || Boolean(takeover)}
         showVolumeHud={showVolumeHud}
         setPlayerReady={setPlayerReady}
+        clockOffsetMs={clockOffsetMs}
+        syncToleranceMs={syncGroup?.toleranceMs ?? null}
         showDebug={showDebug}
         memoryStats={memoryStats}
         mediaStats={mediaStats}
+        configDiagnostics={configDiagnostics}
+        captureStats={captureStats}
         dialOverlay={dialOverlay}
       />
+      <TakeoverLayer takeover={takeover} masterMuted={masterMuted} />
       {displayTuningOverlay}
       {splashOverlay}
     </>
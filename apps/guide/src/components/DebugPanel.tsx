@@ -1,4 +1,8 @@
-import type { MediaDebugStats } from "../types/guide";
+import type {
+  CaptureDebugStats,
+  ConfigDiagnostics,
+  MediaDebugStats,
+} from "../types/guide";
 
 export type MemoryStats = {
   used: number;
@@ -10,6 +14,14 @@ type DebugPanelProps = {
   show: boolean;
   memoryStats: MemoryStats | null;
   mediaStats: MediaDebugStats | null;
+  configDiagnostics?: ConfigDiagnostics | null;
+  captureStats?: CaptureDebugStats | null;
+};
+
+const formatAge = (at: number | null) => {
+  if (!at) return "no frame";
+  const sec = Math.max(0, Math.round((Date.now() - at) / 1000));
+  return sec < 60 ? `frame ${sec}s ago` : `frame ${Math.round(sec / 60)}m ago`;
 };
 
 const formatMb = (bytes: number) => {
@@ -17,7 +29,13 @@ const formatMb = (bytes: number) => {
   return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 };
 
-export function DebugPanel({ show, memoryStats, mediaStats }: DebugPanelProps) {
+export function DebugPanel({
+  show,
+  memoryStats,
+  mediaStats,
+  configDiagnostics,
+  captureStats,
+}: DebugPanelProps) {
   if (!show) return null;
 
   return (
@@ -61,6 +79,53 @@ export function DebugPanel({ show, memoryStats, mediaStats }: DebugPanelProps) {
       ) : (
         <div>Media: unavailable</div>
       )}
+      {configDiagnostics ? (
+        <>
+          <div>
+            Config: {configDiagnostics.errors} errors ·{" "}
+            {configDiagnostics.warnings} warnings
+          </div>
+          {configDiagnostics.diagnostics.length ? (
+            <div className="debug-paths">
+              {configDiagnostics.diagnostics.slice(0, 5).map((item, index) => (
+                <div
+                  key={`${item.file}:${item.line ?? 0}:${index}`}
+                  className={`debug-config-${item.severity}`}
+                >
+                  {item.file.split("/").slice(-1)[0]}
+                  {item.line ? `:${item.line}` : ""} · {item.message}
+                </div>
+              ))}
+            </div>
+          ) : null}
+        </>
+      ) : null}
+      {captureStats?.captures.length ? (
+        <>
+          <div>
+            Captures: browser {captureStats.browserRunning ? "on" : "off"}
+          </div>
+          <div className="debug-paths">
+            {captureStats.captures.map((capture) => (
+              <div
+                key={capture.channelId}
+                className={
+                  capture.health === "ok" ? "" : "debug-capture-unhealthy"
+                }
+              >
+                {capture.channelId} · {capture.state}
+                {capture.state === "stopped"
+                  ? ""
+                  : ` · ${formatAge(capture.lastFrameAt)}`}
+                {capture.restarts ? ` · ${capture.restarts} restarts` : ""}
+                {capture.health !== "ok" && capture.lastError
+                  ? ` · ${capture.lastError}`
+                  : ""}
+              </div>
+            ))}
+          </div>
+        </>
+      ) : null}
     </div>
   );
 }
@@ -3,6 +3,7 @@ import {
   DEBUG_CHANNEL_ID,
   DEBUG_CHANNEL_NUMBER,
 } from "../constants/guide";
+import { formatSlotDate, getDayStartSlots } from "../lib/guide";
 import type { GuideChannel, GuideIndex, ProgramSlot } from "../types/guide";
 
 type GuideGridProps = {
@@ -42,6 +43,7 @@ export function GuideGrid({
   onOpenProgram,
   onToggleDebug,
 }: GuideGridProps) {
+  const dayStartSlots = new Set(getDayStartSlots(indexData.slotTimes));
   return (
     <section className="guide-grid">
       <div className="time-row">
@@ -62,13 +64,20 @@ export function GuideGrid({
             )
             .map((slot, index) => {
               const slotIndex = visibleStartSlot + index;
+              const dateLabel =
+                index === 0 || dayStartSlots.has(slotIndex)
+                  ? formatSlotDate(indexData.slotTimes?.[slotIndex], now)
+                  : null;
               return (
                 <div
                   key={slotIndex}
                   className={`time-slot ${
                     slotIndex === selectedCol ? "is-active" : ""
-                  }`}
+                  } ${dateLabel && index > 0 ? "is-day-start" : ""}`}
                 >
+                  {dateLabel ? (
+                    <span className="time-slot-date">{dateLabel}</span>
+                  ) : null}
                   {slot}
                 </div>
               );
@@ -127,7 +136,7 @@ export function GuideGrid({
                         key={`${channel.id}-${index}`}
                         className={`program-card ${
                           isActive ? "is-active" : ""
-                        }`}
+                        } ${program.overrideId ? "is-special" : ""}`}
                         style={{
                           gridColumn: `${gridColumnStart} / span ${span}`,
                           borderColor: channel.accent,
@@ -1,5 +1,17 @@
 import { useEffect, useRef, useState, useMemo } from "react";
+import {
+  PLAYBACK_DRIFT_TOLERANCE_SEC,
+  PLAYBACK_GROUP_MAX_RATE_DELTA,
+  PLAYBACK_GROUP_RESYNC_MS,
+  PLAYBACK_GROUP_SEEK_SEC,
+  PLAYBACK_RESYNC_MS,
+} from "../constants/guide";
 import { createLogger } from "../lib/logger";
+import {
+  alignMediaToSchedule,
+  resetPlaybackRate,
+  syncMediaToSchedule,
+} from "../lib/playback";
 import type {
   GuideChannel,
   MediaKind,
@@ -27,6 +39,8 @@ type PlayerOverlayProps = {
   masterVolume: number;
   masterMuted: boolean;
   setPlayerReady: (ready: boolean) => void;
+  clockOffsetMs?: number;
+  syncToleranceMs?: number | null;
 };
 
 export function PlayerOverlay({
@@ -42,12 +56,25 @@ export function PlayerOverlay({
   masterVolume,
   masterMuted,
   setPlayerReady,
+  clockOffsetMs = 0,
+  syncToleranceMs = null,
 }: PlayerOverlayProps) {
   const ambientAudioRef = useRef<HTMLAudioElement | null>(null);
   const mediaAudioRef = useRef<HTMLAudioElement | null>(null);
   const mediaVideoRef = useRef<HTMLVideoElement | null>(null);
   const didSeekRef = useRef(false);
   const [ambientOffsetSec, setAmbientOffsetSec] = useState<number | null>(null);
+  const playbackStartAt = playerMeta?.startAt ?? null;
+  const playbackDurationSec = playerMeta?.mediaDurationSec;
+  const fillerUrl = playerMeta?.fillerUrl ?? null;
+  const programEndAt =
+    fillerUrl && playbackStartAt !== null && playerMeta?.durationSec
+      ? playbackStartAt + playerMeta.durationSec * 1000
+      : null;
+  const [fillerActive, setFillerActive] = useState(false);
+  const showFiller = fillerActive && fillerUrl !== null;
+  const mediaUrl = showFiller ? fillerUrl : playerUrl;
+  const mediaLoop = programEndAt === null || showFiller;
   useEffect(() => {
     if (!playerUrl) return;
     log.info("mount", { url: playerUrl, kind: playerKind, open: playerOpen });
@@ -135,6 +162,84 @@ export function PlayerOverlay({
     }
   }, [masterVolume, masterMuted, playerOpen, playerKind]);
 
+  useEffect(() => {
+    if (programEndAt === null) {
+      setFillerActive(false);
+      return;
+    }
+    const remainingMs = programEndAt - Date.now();
+    setFillerActive(remainingMs <= 0);
+    if (remainingMs <= 0) return;
+    const timer = window.setTimeout(() => setFillerActive(true), remainingMs);
+    return () => window.clearTimeout(timer);
+  }, [playerUrl, programEndAt]);
+
+  useEffect(() => {
+    const syncStartAt = showFiller ? programEndAt : playbackStartAt;
+    if (syncStartAt === null) return;
+    const media =
+      playerKind === "video"
+        ? mediaVideoRef.current
+        : playerKind === "audio"
+          ? mediaAudioRef.current
+          : null;
+    if (!media) return;
+    const grouped = syncToleranceMs !== null;
+    const sync = (force: boolean) => {
+      const fallbackDurationSec = showFiller ? undefined : playbackDurationSec;
+      const nowMs = Date.now() + clockOffsetMs;
+      if (grouped) {
+        const result = alignMediaToSchedule(media, syncStartAt, {
+          fallbackDurationSec,
+          toleranceSec: syncToleranceMs / 1000,
+          seekThresholdSec: force ? 0 : PLAYBACK_GROUP_SEEK_SEC,
+          maxRateDelta: PLAYBACK_GROUP_MAX_RATE_DELTA,
+          loop: mediaLoop,
+          nowMs,
+        });
+        if (result && result.rate !== 1) {
+          log.debug("align", { url: mediaUrl, ...result });
+        }
+        return;
+      }
+      const result = syncMediaToSchedule(media, syncStartAt, {
+        fallbackDurationSec,
+        toleranceSec: PLAYBACK_DRIFT_TOLERANCE_SEC,
+        force,
+        loop: mediaLoop,
+        nowMs,
+      });
+      if (result) log.debug("seek", { url: mediaUrl, ...result });
+    };
+    const handleLoaded = () => sync(true);
+    const handleVisibility = () => {
+      if (document.visibilityState === "visible") sync(false);
+    };
+    sync(true);
+    media.addEventListener("loadedmetadata", handleLoaded);
+    document.addEventListener("visibilitychange", handleVisibility);
+    const interval = window.setInterval(
+      () => sync(false),
+      grouped ? PLAYBACK_GROUP_RESYNC_MS : PLAYBACK_RESYNC_MS
+    );
+    return () => {
+      media.removeEventListener("loadedmetadata", handleLoaded);
+      document.removeEventListener("visibilitychange", handleVisibility);
+      window.clearInterval(interval);
+      if (grouped) resetPlaybackRate(media);
+    };
+  }, [
+    mediaUrl,
+    playerKind,
+    playbackStartAt,
+    playbackDurationSec,
+    programEndAt,
+    showFiller,
+    mediaLoop,
+    clockOffsetMs,
+    syncToleranceMs,
+  ]);
+
   useEffect(() => {
     const audio = ambientAudioRef.current;
     if (!audio || ambientOffsetSec === null) return;
@@ -182,30 +287,36 @@ export function PlayerOverlay({
         ) : playerKind === "video" ? (
           <video
             className="player-media player-video"
-            src={playerUrl}
+            src={mediaUrl ?? undefined}
             autoPlay
-            loop
+            loop={mediaLoop}
             muted={masterMuted || !playerOpen}
             playsInline
             ref={mediaVideoRef}
             onLoadedData={() => {
-              log.info("loaded", { url: playerUrl, kind: "video" });
+              log.info("loaded", { url: mediaUrl, kind: "video" });
               setPlayerReady(true);
             }}
+            onEnded={() => {
+              if (programEndAt !== null) setFillerActive(true);
+            }}
           />
         ) : playerKind === "audio" ? (
           <div className="player-audio">
             <div className="player-audio-visual" />
             <audio
               ref={mediaAudioRef}
-              src={playerUrl}
+              src={mediaUrl ?? undefined}
               autoPlay
-              loop
+              loop={mediaLoop}
               muted={masterMuted || !playerOpen}
               onCanPlay={() => {
-                log.info("loaded", { url: playerUrl, kind: "audio" });
+                log.info("loaded", { url: mediaUrl, kind: "audio" });
                 setPlayerReady(true);
               }}
+              onEnded={() => {
+                if (programEndAt !== null) setFillerActive(true);
+              }}
             />
           </div>
         ) : (
@@ -0,0 +1,312 @@
+import { useEffect, useRef, useState, type PointerEvent } from "react";
+import type { ControlValue, RemoteControl } from "../types/guide";
+
+type ControlOf<T extends RemoteControl["type"]> = Extract<
+  RemoteControl,
+  { type: T }
+>;
+
+type ControlProps<T extends RemoteControl["type"]> = {
+  control: ControlOf<T>;
+  onChange: (controlId: string, value: ControlValue) => void;
+};
+
+type RemoteAppControlsProps = {
+  controls: RemoteControl[];
+  onChange: (controlId: string, value: ControlValue) => void;
+};
+
+type ControlSection = {
+  group: ControlOf<"group"> | null;
+  controls: RemoteControl[];
+};
+
+const TEXT_MAX_LENGTH = 120;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// Controls after a `group` header belong to it until the next header.
+const toSections = (controls: RemoteControl[]) =>
+  controls.reduce<ControlSection[]>(
+    (sections, control) => {
+      if (control.type === "group") {
+        sections.push({ group: control, controls: [] });
+      } else {
+        sections[sections.length - 1].controls.push(control);
+      }
+      return sections;
+    },
+    [{ group: null, controls: [] }]
+  );
+
+function XYControl({ control, onChange }: ControlProps<"xy">) {
+  const min = control.min ?? 0;
+  const max = control.max ?? 1;
+  const span = max - min || 1;
+  const value = control.value ?? { x: (min + max) / 2, y: (min + max) / 2 };
+
+  const toValue = (ratio: number) => {
+    const raw = min + clamp01(ratio) * span;
+    if (!control.step) return raw;
+    const steps = Math.round((raw - min) / control.step);
+    return Math.min(max, min + steps * control.step);
+  };
+
+  const update = (event: PointerEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    onChange(control.id, {
+      x: toValue((event.clientX - rect.left) / rect.width),
+      y: toValue((event.clientY - rect.top) / rect.height),
+    });
+  };
+
+  return (
+    <div className="remote-control remote-xy">
+      <span className="remote-control-label">
+        {control.label}
+        <span className="remote-control-value">
+          {value.x.toFixed(2)}, {value.y.toFixed(2)}
+        </span>
+      </span>
+      <div
+        className="remote-xy-pad"
+        onPointerDown={(event) => {
+          event.currentTarget.setPointerCapture(event.pointerId);
+          update(event);
+        }}
+        onPointerMove={(event) => {
+          if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+            update(event);
+          }
+        }}
+      >
+        <span
+          className="remote-xy-thumb"
+          style={{
+            left: `${clamp01((value.x - min) / span) * 100}%`,
+            top: `${clamp01((value.y - min) / span) * 100}%`,
+          }}
+        />
+      </div>
+    </div>
+  );
+}
+
+function TextControl({ control, onChange }: ControlProps<"text">) {
+  const [draft, setDraft] = useState(control.value ?? "");
+
+  return (
+    <form
+      className="remote-control remote-text"
+      onSubmit={(event) => {
+        event.preventDefault();
+        onChange(control.id, draft);
+      }}
+    >
+      <span className="remote-control-label">{control.label}</span>
+      <div className="remote-text-row">
+        <input
+          value={draft}
+          maxLength={control.maxLength ?? TEXT_MAX_LENGTH}
+          placeholder={control.placeholder}
+          enterKeyHint="send"
+          onChange={(event) => setDraft(event.currentTarget.value)}
+        />
+        <button type="submit">Send</button>
+      </div>
+    </form>
+  );
+}
+
+function TriggerControl({ control, onChange }: ControlProps<"trigger">) {
+  const [held, setHeld] = useState(false);
+  const heldRef = useRef(false);
+  const releaseRef = useRef(() => {});
+  const release = () => {
+    if (!heldRef.current) return;
+    heldRef.current = false;
+    setHeld(false);
+    onChange(control.id, false);
+  };
+
+  useEffect(() => {
+    releaseRef.current = release;
+  });
+
+  // An app switch or a closing panel unmounts the button mid-hold; let go so
+  // the app is not left held forever.
+  useEffect(() => () => releaseRef.current(), []);
+
+  return (
+    <div className="remote-control remote-trigger">
+      <span className="remote-control-label">{control.label}</span>
+      <button
+        className={held ? "is-on" : ""}
+        onPointerDown={(event) => {
+          event.currentTarget.setPointerCapture(event.pointerId);
+          heldRef.current = true;
+          setHeld(true);
+          onChange(control.id, true);
+        }}
+        onPointerUp={release}
+        onPointerCancel={release}
+        onLostPointerCapture={release}
+        onContextMenu={(event) => event.preventDefault()}
+      >
+        {held ? "Holding" : "Hold"}
+      </button>
+    </div>
+  );
+}
+
+function RemoteAppControl({
+  control,
+  onChange,
+}: {
+  control: RemoteControl;
+  onChange: (controlId: string, value: ControlValue) => void;
+}) {
+  if (control.type === "range") {
+    const value =
+      typeof control.value === "number" ? control.value : control.min;
+    return (
+      <label className="remote-control remote-range">
+        <span className="remote-control-label">
+          {control.label}
+          <span className="remote-control-value">{value.toFixed(2)}</span>
+        </span>
+        <input
+          type="range"
+          min={control.min}
+          max={control.max}
+          step={control.step ?? 0.1}
+          value={value}
+          onChange={(event) =>
+            onChange(control.id, Number(event.currentTarget.value))
+          }
+        />
+      </label>
+    );
+  }
+  if (control.type === "select") {
+    const value = control.value ?? control.options[0]?.value ?? "";
+    return (
+      <label className="remote-control remote-select">
+        <span className="remote-control-label">{control.label}</span>
+        <select
+          value={value}
+          onChange={(event) => onChange(control.id, event.currentTarget.value)}
+        >
+          {control.options.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+    );
+  }
+  if (control.type === "toggle") {
+    const value = Boolean(control.value);
+    return (
+      <div className="remote-control remote-toggle">
+        <span className="remote-control-label">{control.label}</span>
+        <button
+          className={value ? "is-on" : ""}
+          onClick={() => onChange(control.id, !value)}
+        >
+          {value ? "On" : "Off"}
+        </button>
+      </div>
+    );
+  }
+  if (control.type === "color") {
+    const value = control.value ?? "#ffffff";
+    return (
+      <label className="remote-control remote-color">
+        <span className="remote-control-label">
+          {control.label}
+          <span className="remote-control-value">{value}</span>
+        </span>
+        <input
+          type="color"
+          value={value}
+          onChange={(event) => onChange(control.id, event.currentTarget.value)}
+        />
+      </label>
+    );
+  }
+  if (control.type === "xy") {
+    return <XYControl control={control} onChange={onChange} />;
+  }
+  if (control.type === "text") {
+    return <TextControl control={control} onChange={onChange} />;
+  }
+  if (control.type === "trigger") {
+    return <TriggerControl control={control} onChange={onChange} />;
+  }
+  if (control.type === "button") {
+    return (
+      <div className="remote-control remote-button">
+        <span className="remote-control-label">{control.label}</span>
+        <button onClick={() => onChange(control.id, Date.now())}>
+          Trigger
+        </button>
+      </div>
+    );
+  }
+  return null;
+}
+
+export function RemoteAppControls({
+  controls,
+  onChange,
+}: RemoteAppControlsProps) {
+  const [collapsed, setCollapsed] = useState<Record<string, boolean>>({});
+  const sections = toSections(controls).filter(
+    (section) => section.group || section.controls.length
+  );
+
+  return (
+    <div className="remote-app-controls">
+      {sections.map(({ group, controls: items }) => {
+        const isCollapsed = group
+          ? (collapsed[group.id] ?? Boolean(group.collapsed))
+          : false;
+        return (
+          <div
+            key={group?.id ?? ""}
+            className={`remote-control-section ${
+              isCollapsed ? "is-collapsed" : ""
+            }`}
+          >
+            {group ? (
+              <button
+                className="remote-control-group"
+                aria-expanded={!isCollapsed}
+                onClick={() =>
+                  setCollapsed((prev) => ({
+                    ...prev,
+                    [group.id]: !isCollapsed,
+                  }))
+                }
+              >
+                <span>{group.label}</span>
+                <span>{isCollapsed ? "+" : "−"}</span>
+              </button>
+            ) : null}
+            {isCollapsed
+              ? null
+              : items.map((control) => (
+                  <RemoteAppControl
+                    key={control.id}
+                    control={control}
+                    onChange={onChange}
+                  />
+                ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
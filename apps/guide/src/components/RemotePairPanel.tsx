@@ -0,0 +1,43 @@
+import { useState } from "react";
+import type { PairingStatus } from "../hooks/useRemotePairing";
+
+type RemotePairPanelProps = {
+  status: PairingStatus;
+  error: string | null;
+  onPair: (code: string) => void;
+};
+
+export function RemotePairPanel({ status, error, onPair }: RemotePairPanelProps) {
+  const [code, setCode] = useState("");
+  const busy = status === "pairing";
+
+  return (
+    <form
+      className="remote-pair"
+      onSubmit={(event) => {
+        event.preventDefault();
+        if (code.length === 6 && !busy) onPair(code);
+      }}
+    >
+      <div className="remote-pair-title">Pair with a screen</div>
+      <div className="remote-pair-hint">
+        Scan the QR on the TV, or type the code shown under it.
+      </div>
+      <input
+        className="remote-pair-input"
+        value={code}
+        onChange={(event) =>
+          setCode(event.currentTarget.value.replace(/\D/g, "").slice(0, 6))
+        }
+        inputMode="numeric"
+        autoComplete="one-time-code"
+        placeholder="000000"
+        aria-label="Pairing code"
+      />
+      <button type="submit" disabled={code.length !== 6 || busy}>
+        {busy ? "Pairing…" : "Pair"}
+      </button>
+      {error ? <div className="remote-pair-error">{error}</div> : null}
+    </form>
+  );
+}
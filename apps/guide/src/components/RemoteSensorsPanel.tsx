@@ -0,0 +1,68 @@
+import {
+  useRemoteSensors,
+  type SensorStatus,
+} from "../hooks/useRemoteSensors";
+import type { SensorKind } from "../types/guide";
+
+type RemoteSensorsPanelProps = {
+  sensors: SensorKind[];
+  onSample: (controlId: string, value: number) => void;
+};
+
+const SENSOR_LABELS: Record<SensorKind, string> = {
+  tilt: "Tilt",
+  shake: "Shake",
+  mic: "Mic level",
+};
+
+const SENSOR_READINGS: Record<SensorKind, string[]> = {
+  tilt: ["tiltX", "tiltY"],
+  shake: ["shake"],
+  mic: ["micLevel"],
+};
+
+const STATUS_HINTS: Partial<Record<SensorStatus, string>> = {
+  insecure: "Sensors need the remote opened over HTTPS.",
+  blocked: "Permission was denied. Allow motion and mic access, then retry.",
+};
+
+export function RemoteSensorsPanel({
+  sensors,
+  onSample,
+}: RemoteSensorsPanelProps) {
+  const { status, readings, start, stop } = useRemoteSensors({
+    sensors,
+    onSample,
+  });
+  const isOn = status === "on";
+
+  return (
+    <div className="remote-sensors">
+      <div className="remote-sensors-head">
+        <span className="remote-control-label">Phone sensors</span>
+        <button
+          className={isOn ? "is-on" : ""}
+          disabled={status === "starting"}
+          onClick={() => (isOn ? stop() : void start())}
+        >
+          {isOn ? "Stop" : status === "starting" ? "Starting…" : "Enable"}
+        </button>
+      </div>
+      {sensors.map((sensor) => (
+        <div key={sensor} className="remote-sensor-row">
+          <span>{SENSOR_LABELS[sensor]}</span>
+          <span className="remote-control-value">
+            {isOn
+              ? SENSOR_READINGS[sensor]
+                  .map((id) => readings[id]?.toFixed(2) ?? "–")
+                  .join(", ")
+              : "off"}
+          </span>
+        </div>
+      ))}
+      {STATUS_HINTS[status] ? (
+        <div className="remote-app-status">{STATUS_HINTS[status]}</div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { getMediaKind } from "../lib/media";
+import type { TakeoverState } from "../types/guide";
+
+type TakeoverLayerProps = {
+  takeover: TakeoverState | null;
+  masterMuted: boolean;
+};
+
+export function TakeoverLayer({ takeover, masterMuted }: TakeoverLayerProps) {
+  if (!takeover) return null;
+  const kind = takeover.url ? getMediaKind(takeover.url) : null;
+  const hasBanner = Boolean(takeover.title || takeover.message);
+
+  return (
+    <div className="takeover-layer" role="alert">
+      {takeover.url && kind === "video" ? (
+        <video
+          className="takeover-media"
+          src={takeover.url}
+          autoPlay
+          loop
+          playsInline
+          muted={masterMuted}
+        />
+      ) : takeover.url && kind === "image" ? (
+        <img
+          className="takeover-media takeover-image"
+          src={takeover.url}
+          alt={takeover.title ?? "Announcement"}
+        />
+      ) : takeover.url && kind === "audio" ? (
+        <audio src={takeover.url} autoPlay loop muted={masterMuted} />
+      ) : takeover.url ? (
+        <iframe
+          className="takeover-media"
+          src={takeover.url}
+          title={takeover.title ?? "Announcement"}
+          allow="autoplay; fullscreen"
+        />
+      ) : null}
+      {hasBanner ? (
+        <div className={`takeover-banner ${takeover.url ? "is-corner" : ""}`}>
+          <div className="takeover-label">Emergency Broadcast</div>
+          {takeover.title ? (
+            <div className="takeover-title">{takeover.title}</div>
+          ) : null}
+          {takeover.message ? (
+            <div className="takeover-message">{takeover.message}</div>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
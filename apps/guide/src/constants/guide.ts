@@ -22,6 +22,13 @@ export const PRELOAD_DEBOUNCE_MS = 320;
 export const PRELOAD_AFTER_PLAY_MS = 1200;
 export const PRELOAD_CACHE_TTL_MS = 60 * 1000;
 export const PRELOAD_CACHE_LIMIT = 2;
+export const PLAYBACK_RESYNC_MS = 15000;
+export const PLAYBACK_DRIFT_TOLERANCE_SEC = 2;
+export const PLAYBACK_GROUP_RESYNC_MS = 1000;
+export const PLAYBACK_GROUP_SEEK_SEC = 1;
+export const PLAYBACK_GROUP_MAX_RATE_DELTA = 0.08;
+export const CLOCK_SYNC_INTERVAL_MS = 30000;
+export const CLOCK_SYNC_SAMPLES = 5;
 export const DEBUG_CHANNEL_ID = "debug";
 export const DEBUG_CHANNEL_NUMBER = "026";
 export const GODMODE_CHANNEL_ID = "godmode";
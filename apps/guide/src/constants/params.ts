@@ -8,9 +8,13 @@ export const PARAM_SPLASH = "splash";
 export const PARAM_NO_SPLASH = "nosplash";
 export const PARAM_MUTE_KEYS = ["muted", "mute", "audioMuted", "audio"] as const;
 export const PARAM_SCREEN_KEYS = ["screen", "screenId"] as const;
+export const PARAM_GROUP_KEYS = ["group", "groups"] as const;
+export const PARAM_SCREEN_TOKEN = "screenToken";
 export const PARAM_ART_INDEX = "i";
 export const PARAM_REMOTE_HOST = "host";
 export const PARAM_REMOTE_HTTPS = "https";
 export const PARAM_LOG_LEVEL = "log";
 export const PARAM_WS = "ws";
 export const PARAM_EMBED_DEBUG = "embed_debug";
+export const PARAM_PAIR = "pair";
+export const PARAM_ADMIN = "admin";
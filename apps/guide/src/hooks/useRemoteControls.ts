@@ -1,6 +1,12 @@
 import { useCallback, useEffect, useState } from "react";
 import { createLogger } from "../lib/logger";
-import type { RemoteControl, RemoteMessage, ViewMode } from "../types/guide";
+import type {
+  ControlValue,
+  RemoteControl,
+  RemoteMessage,
+  SensorKind,
+  ViewMode,
+} from "../types/guide";
 
 export type RemoteControlsStatus = "idle" | "loading" | "ready" | "missing";
 
@@ -12,12 +18,34 @@ type RemoteControlsOptions = {
 
 const log = createLogger("remote-controls");
 
+// Mirrors a sent value into the local schema so inputs stay controlled.
+const applyControlValue = (
+  control: RemoteControl,
+  value: ControlValue
+): RemoteControl => {
+  switch (control.type) {
+    case "range":
+      return typeof value === "number" ? { ...control, value } : control;
+    case "toggle":
+      return typeof value === "boolean" ? { ...control, value } : control;
+    case "select":
+    case "color":
+    case "text":
+      return typeof value === "string" ? { ...control, value } : control;
+    case "xy":
+      return typeof value === "object" ? { ...control, value } : control;
+    default:
+      return control;
+  }
+};
+
 export function useRemoteControls({
   viewMode,
   activeRemoteAppId,
   send,
 }: RemoteControlsOptions) {
   const [remoteControls, setRemoteControls] = useState<RemoteControl[]>([]);
+  const [remoteSensors, setRemoteSensors] = useState<SensorKind[]>([]);
   const [remoteControlsStatus, setRemoteControlsStatus] =
     useState<RemoteControlsStatus>("idle");
 
@@ -35,22 +63,12 @@ export function useRemoteControls({
   );
 
   const handleRemoteControl = useCallback(
-    (controlId: string, value: number | string | boolean) => {
+    (controlId: string, value: ControlValue) => {
       if (!activeRemoteAppId) return;
       setRemoteControls((prev) =>
-        prev.map((control): RemoteControl => {
-          if (control.id !== controlId) return control;
-          if (control.type === "range" && typeof value === "number") {
-            return { ...control, value };
-          }
-          if (control.type === "select" && typeof value === "string") {
-            return { ...control, value };
-          }
-          if (control.type === "toggle" && typeof value === "boolean") {
-            return { ...control, value };
-          }
-          return control;
-        })
+        prev.map((control) =>
+          control.id === controlId ? applyControlValue(control, value) : control
+        )
       );
       send({ type: "control", appId: activeRemoteAppId, controlId, value });
     },
@@ -73,11 +91,16 @@ export function useRemoteControls({
         }
         const data = (await res.json()) as {
           controls?: RemoteControl[];
+          sensors?: SensorKind[];
         };
         if (cancelled) return;
         setRemoteControls((prev) =>
           mergeRemoteControls(data.controls ?? [], prev)
         );
+        const sensors = data.sensors ?? [];
+        setRemoteSensors((prev) =>
+          prev.join() === sensors.join() ? prev : sensors
+        );
         setRemoteControlsStatus("ready");
       } catch (error) {
         if (!cancelled) setRemoteControlsStatus("missing");
@@ -96,11 +119,13 @@ export function useRemoteControls({
   useEffect(() => {
     if (viewMode !== "remote") return;
     setRemoteControls([]);
+    setRemoteSensors([]);
     setRemoteControlsStatus(activeRemoteAppId ? "loading" : "idle");
   }, [viewMode, activeRemoteAppId]);
 
   return {
     remoteControls,
+    remoteSensors,
     remoteControlsStatus,
     handleRemoteControl,
     setRemoteControls,
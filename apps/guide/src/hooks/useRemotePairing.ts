@@ -0,0 +1,92 @@
+import { useCallback, useEffect, useState } from "react";
+import { PARAM_ADMIN, PARAM_PAIR } from "../constants/params";
+import { createLogger } from "../lib/logger";
+import { loadRemoteToken, saveRemoteToken } from "../lib/storage";
+
+const log = createLogger("remote-pairing");
+
+export type PairingStatus = "idle" | "pairing" | "error";
+
+// What the server's `welcome` says the current token allows.
+export type RemoteAuth = {
+  pairingRequired: boolean;
+  pairedScreenId: string | null;
+  admin: boolean;
+};
+
+export function useRemotePairing(enabled: boolean) {
+  const [token, setToken] = useState(() => {
+    if (!enabled) return "";
+    const params = new URLSearchParams(window.location.search);
+    return params.get(PARAM_ADMIN) ?? loadRemoteToken();
+  });
+  const [pairStatus, setPairStatus] = useState<PairingStatus>("idle");
+  const [pairError, setPairError] = useState<string | null>(null);
+
+  const saveToken = useCallback((next: string) => {
+    saveRemoteToken(next);
+    setToken(next);
+  }, []);
+
+  const pair = useCallback(
+    async (code: string) => {
+      setPairStatus("pairing");
+      setPairError(null);
+      try {
+        const res = await fetch("/api/pair", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ code }),
+        });
+        if (!res.ok) {
+          log.warn("pair-status", { status: res.status });
+          setPairStatus("error");
+          setPairError(
+            res.status === 429
+              ? "Too many attempts. Try again in a few minutes."
+              : "That code does not match a screen."
+          );
+          return;
+        }
+        const data = (await res.json()) as { token: string; screenId: string };
+        log.info("paired", { screenId: data.screenId });
+        saveToken(data.token);
+        setPairStatus("idle");
+      } catch (error) {
+        log.warn("pair-failed", error);
+        setPairStatus("error");
+        setPairError("Could not reach the server.");
+      }
+    },
+    [saveToken]
+  );
+
+  const unpair = useCallback(() => {
+    if (token) {
+      fetch("/api/pair", {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${token}` },
+      }).catch((error) => log.warn("unpair-failed", error));
+    }
+    saveToken("");
+  }, [saveToken, token]);
+
+  // Scanning the screen's QR opens /remote?pair=<code>; operators can open
+  // ?admin=<token> once. Both are consumed and dropped from the address bar.
+  useEffect(() => {
+    if (!enabled) return;
+    const url = new URL(window.location.href);
+    const code = url.searchParams.get(PARAM_PAIR);
+    const admin = url.searchParams.get(PARAM_ADMIN);
+    if (!code && !admin) return;
+    url.searchParams.delete(PARAM_PAIR);
+    url.searchParams.delete(PARAM_ADMIN);
+    window.history.replaceState(null, "", url.toString());
+    if (admin) saveRemoteToken(admin);
+    if (code) void pair(code);
+  }, [enabled, pair]);
+
+  return { token, saveToken, pair, unpair, pairStatus, pairError };
+}
+
+export type RemotePairing = ReturnType<typeof useRemotePairing>;
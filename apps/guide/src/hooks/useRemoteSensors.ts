@@ -0,0 +1,188 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { createLogger } from "../lib/logger";
+import type { SensorKind } from "../types/guide";
+
+export type SensorStatus = "off" | "starting" | "on" | "blocked" | "insecure";
+
+type RemoteSensorsOptions = {
+  sensors: SensorKind[];
+  onSample: (controlId: string, value: number) => void;
+};
+
+type PermissionTarget = {
+  requestPermission?: () => Promise<string>;
+};
+
+const log = createLogger("remote-sensors");
+
+// Keeps the socket at ~10 messages per second per sensor.
+const SENSOR_INTERVAL_MS = 100;
+const SENSOR_EPSILON = 0.01;
+const TILT_RANGE_DEG = 45;
+const SHAKE_THRESHOLD = 12;
+const SHAKE_COOLDOWN_MS = 600;
+const MIC_GAIN = 4;
+
+const clampUnit = (value: number) => Math.min(1, Math.max(-1, value));
+
+// iOS only fires motion events after an explicit grant from a tap.
+const requestMotionPermission = async (target: unknown) => {
+  const request = (target as PermissionTarget | undefined)?.requestPermission;
+  if (!request) return;
+  const result = await request.call(target);
+  if (result !== "granted") throw new Error(`motion permission ${result}`);
+};
+
+export function useRemoteSensors({ sensors, onSample }: RemoteSensorsOptions) {
+  const [status, setStatus] = useState<SensorStatus>("off");
+  const [readings, setReadings] = useState<Record<string, number>>({});
+  const onSampleRef = useRef(onSample);
+  const stopRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => {
+    onSampleRef.current = onSample;
+  }, [onSample]);
+
+  const stop = useCallback(() => {
+    stopRef.current?.();
+    stopRef.current = null;
+    setStatus("off");
+    setReadings({});
+  }, []);
+
+  // Must run from a tap: browsers only prompt for motion and mic access then.
+  const start = useCallback(async () => {
+    if (stopRef.current || !sensors.length) return;
+    if (!window.isSecureContext) {
+      setStatus("insecure");
+      return;
+    }
+    setStatus("starting");
+    const wantsMotion = sensors.includes("tilt") || sensors.includes("shake");
+    const cleanups: Array<() => void> = [];
+    const lastSent = new Map<string, { at: number; value: number }>();
+    const trailing = new Map<string, number>();
+    cleanups.push(() => trailing.forEach((timer) => window.clearTimeout(timer)));
+    const clearTrailing = (controlId: string) => {
+      window.clearTimeout(trailing.get(controlId));
+      trailing.delete(controlId);
+    };
+    const send = (controlId: string, value: number) => {
+      lastSent.set(controlId, { at: performance.now(), value });
+      onSampleRef.current(controlId, value);
+      setReadings((prevReadings) => ({ ...prevReadings, [controlId]: value }));
+    };
+    // Samples inside the interval are held back, but the newest one still
+    // goes out when it ends so the app settles on where the phone stopped.
+    const emit = (controlId: string, value: number, force = false) => {
+      const prev = lastSent.get(controlId);
+      if (!force && prev && Math.abs(prev.value - value) < SENSOR_EPSILON) {
+        clearTrailing(controlId);
+        return;
+      }
+      const wait =
+        !force && prev ? prev.at + SENSOR_INTERVAL_MS - performance.now() : 0;
+      clearTrailing(controlId);
+      if (wait > 0) {
+        trailing.set(
+          controlId,
+          window.setTimeout(() => {
+            trailing.delete(controlId);
+            send(controlId, value);
+          }, wait)
+        );
+        return;
+      }
+      send(controlId, value);
+    };
+
+    const micStream = sensors.includes("mic")
+      ? navigator.mediaDevices.getUserMedia({ audio: true })
+      : null;
+    try {
+      if (wantsMotion) {
+        await Promise.all([
+          requestMotionPermission(window.DeviceOrientationEvent),
+          requestMotionPermission(window.DeviceMotionEvent),
+        ]);
+      }
+
+      if (sensors.includes("tilt")) {
+        let baseline: number | null = null;
+        const handleOrientation = (event: DeviceOrientationEvent) => {
+          if (event.beta === null || event.gamma === null) return;
+          baseline ??= event.beta;
+          const tiltX = clampUnit(event.gamma / TILT_RANGE_DEG);
+          const tiltY = clampUnit((event.beta - baseline) / TILT_RANGE_DEG);
+          emit("tiltX", Number(tiltX.toFixed(3)));
+          emit("tiltY", Number(tiltY.toFixed(3)));
+        };
+        window.addEventListener("deviceorientation", handleOrientation);
+        cleanups.push(() =>
+          window.removeEventListener("deviceorientation", handleOrientation)
+        );
+      }
+
+      if (sensors.includes("shake")) {
+        let lastShakeAt = 0;
+        const handleMotion = (event: DeviceMotionEvent) => {
+          const { x, y, z } = event.acceleration ?? {};
+          if (x == null || y == null || z == null) return;
+          const magnitude = Math.hypot(x, y, z);
+          const now = performance.now();
+          if (
+            magnitude < SHAKE_THRESHOLD ||
+            now - lastShakeAt < SHAKE_COOLDOWN_MS
+          ) {
+            return;
+          }
+          lastShakeAt = now;
+          emit("shake", Number(magnitude.toFixed(1)), true);
+        };
+        window.addEventListener("devicemotion", handleMotion);
+        cleanups.push(() =>
+          window.removeEventListener("devicemotion", handleMotion)
+        );
+      }
+
+      if (micStream) {
+        const stream = await micStream;
+        const audioContext = new AudioContext();
+        const analyser = audioContext.createAnalyser();
+        analyser.fftSize = 1024;
+        audioContext.createMediaStreamSource(stream).connect(analyser);
+        const samples = new Float32Array(analyser.fftSize);
+        const timer = window.setInterval(() => {
+          analyser.getFloatTimeDomainData(samples);
+          let sum = 0;
+          samples.forEach((sample) => {
+            sum += sample * sample;
+          });
+          const rms = Math.sqrt(sum / samples.length);
+          const level = Math.min(1, rms * MIC_GAIN);
+          emit("micLevel", Number(level.toFixed(3)));
+        }, SENSOR_INTERVAL_MS);
+        cleanups.push(() => {
+          window.clearInterval(timer);
+          stream.getTracks().forEach((track) => track.stop());
+          void audioContext.close();
+        });
+      }
+    } catch (error) {
+      log.warn("sensors-blocked", error);
+      cleanups.forEach((cleanup) => cleanup());
+      micStream
+        ?.then((stream) => stream.getTracks().forEach((track) => track.stop()))
+        .catch(() => {});
+      setStatus("blocked");
+      return;
+    }
+
+    stopRef.current = () => cleanups.forEach((cleanup) => cleanup());
+    setStatus("on");
+  }, [sensors]);
+
+  useEffect(() => () => stopRef.current?.(), []);
+
+  return { status, readings, start, stop };
+}
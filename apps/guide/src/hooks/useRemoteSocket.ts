@@ -1,21 +1,52 @@
 import { useCallback, useEffect, useRef, useState } from "react";
+import { parseMessage, PROTOCOL_VERSION } from "@chiba-cable/protocol";
 import { createLogger } from "../lib/logger";
 import { getWsUrl } from "../lib/remote";
-import type { RemoteMessage, RemoteStatus } from "../types/guide";
+import type {
+  MessageTarget,
+  RemoteMessage,
+  RemoteStatus,
+} from "../types/guide";
 
 const log = createLogger("remote-socket");
 
-export function useRemoteSocket(onMessage?: (msg: RemoteMessage) => void) {
+type RemoteSocketOptions = {
+  hello?: Extract<RemoteMessage, { type: "hello" }>;
+  target?: MessageTarget;
+};
+
+export function useRemoteSocket(
+  onMessage?: (msg: RemoteMessage) => void,
+  options: RemoteSocketOptions = {}
+) {
   const [status, setStatus] = useState<RemoteStatus>("connecting");
   const socketRef = useRef<WebSocket | null>(null);
   const reconnectTimerRef = useRef<number | null>(null);
   const retryRef = useRef(0);
   const handlerRef = useRef(onMessage);
+  const targetRef = useRef(options.target);
+  // Serialized so a re-render with an equal hello object does not resend it.
+  const hello = options.hello
+    ? JSON.stringify({ ...options.hello, protocol: PROTOCOL_VERSION })
+    : "";
+  const helloRef = useRef(hello);
 
   useEffect(() => {
     handlerRef.current = onMessage;
   }, [onMessage]);
 
+  useEffect(() => {
+    targetRef.current = options.target;
+  }, [options.target]);
+
+  useEffect(() => {
+    helloRef.current = hello;
+    const socket = socketRef.current;
+    if (hello && socket?.readyState === WebSocket.OPEN) {
+      socket.send(hello);
+    }
+  }, [hello]);
+
   useEffect(() => {
     let cancelled = false;
     const connect = () => {
@@ -31,6 +62,9 @@ export function useRemoteSocket(onMessage?: (msg: RemoteMessage) => void) {
         retryRef.current = 0;
         setStatus("open");
         log.info("open");
+        if (helloRef.current) {
+          socket.send(helloRef.current);
+        }
       });
       socket.addEventListener("close", () => {
         if (cancelled) return;
@@ -46,12 +80,18 @@ export function useRemoteSocket(onMessage?: (msg: RemoteMessage) => void) {
       });
       socket.addEventListener("message", (event) => {
         if (cancelled) return;
-        try {
-          const data = JSON.parse(event.data as string) as RemoteMessage;
-          handlerRef.current?.(data);
-        } catch (error) {
-          log.warn("bad-message", error);
+        const result = parseMessage(event.data as string);
+        if (!result.ok) {
+          log.warn("bad-message", result.error);
+          return;
         }
+        const data = result.message;
+        if (data.type === "error") {
+          log.warn("server-error", data);
+        } else if (data.type === "welcome") {
+          log.info("welcome", { protocol: data.protocol });
+        }
+        handlerRef.current?.(data);
       });
     };
 
@@ -80,11 +120,14 @@ export function useRemoteSocket(onMessage?: (msg: RemoteMessage) => void) {
 
   const send = useCallback((message: RemoteMessage) => {
     if (socketRef.current?.readyState === WebSocket.OPEN) {
-      socketRef.current.send(JSON.stringify(message));
+      const target = message.target ?? targetRef.current;
+      socketRef.current.send(
+        JSON.stringify(target ? { ...message, target } : message)
+      );
     } else {
       log.warn("send-failed", message);
     }
-  }, []);
+  }, [targetRef]);
 
   return { send, status };
 }
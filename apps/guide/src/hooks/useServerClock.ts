@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  CLOCK_SYNC_INTERVAL_MS,
+  CLOCK_SYNC_SAMPLES,
+} from "../constants/guide";
+import { createLogger } from "../lib/logger";
+import type { RemoteMessage, RemoteStatus } from "../types/guide";
+
+const log = createLogger("server-clock");
+
+type ClockSample = {
+  offsetMs: number;
+  rttMs: number;
+};
+
+export type ServerClock = {
+  offsetMs: number;
+  rttMs: number | null;
+};
+
+// Estimates serverTime - Date.now() NTP-style over the remote socket. The
+// sample with the shortest round trip wins since its midpoint is most accurate.
+export function useServerClock(
+  send: (message: RemoteMessage) => void,
+  status: RemoteStatus,
+  enabled: boolean
+) {
+  const [clock, setClock] = useState<ServerClock>({ offsetMs: 0, rttMs: null });
+  const samplesRef = useRef<ClockSample[]>([]);
+
+  useEffect(() => {
+    if (!enabled || status !== "open") return;
+    samplesRef.current = [];
+    let burst = 0;
+    const ping = () => {
+      send({ type: "clock", clientSentAt: Date.now() });
+    };
+    ping();
+    const burstTimer = window.setInterval(() => {
+      burst += 1;
+      if (burst >= CLOCK_SYNC_SAMPLES) {
+        window.clearInterval(burstTimer);
+        return;
+      }
+      ping();
+    }, 250);
+    const interval = window.setInterval(ping, CLOCK_SYNC_INTERVAL_MS);
+    return () => {
+      window.clearInterval(burstTimer);
+      window.clearInterval(interval);
+    };
+  }, [enabled, status, send]);
+
+  const handleClockMessage = useCallback(
+    (msg: Extract<RemoteMessage, { type: "clock" }>) => {
+      if (typeof msg.serverTime !== "number") return;
+      const receivedAt = Date.now();
+      const rttMs = receivedAt - msg.clientSentAt;
+      if (!Number.isFinite(rttMs) || rttMs < 0) return;
+      const sample = {
+        offsetMs: msg.serverTime - (msg.clientSentAt + receivedAt) / 2,
+        rttMs,
+      };
+      const samples = [...samplesRef.current, sample].slice(
+        -CLOCK_SYNC_SAMPLES * 2
+      );
+      samplesRef.current = samples;
+      const best = samples.reduce((min, item) =>
+        item.rttMs < min.rttMs ? item : min
+      );
+      setClock((prev) => {
+        if (
+          prev.rttMs === best.rttMs &&
+          Math.abs(prev.offsetMs - best.offsetMs) < 1
+        ) {
+          return prev;
+        }
+        log.debug("offset", best);
+        return { offsetMs: best.offsetMs, rttMs: best.rttMs };
+      });
+    },
+    []
+  );
+
+  return { ...clock, handleClockMessage };
+}
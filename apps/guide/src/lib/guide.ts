@@ -123,8 +123,16 @@ export function getCurrentSlotIndex(
   now: Date,
   startTime: string,
   slotMinutes: number,
-  slotCount: number
+  slotCount: number,
+  slotTimes?: string[]
 ): number {
+  const firstSlotMs = slotTimes?.length ? Date.parse(slotTimes[0]) : NaN;
+  if (Number.isFinite(firstSlotMs) && slotMinutes > 0) {
+    const slotIndex = Math.floor(
+      (now.getTime() - firstSlotMs) / (slotMinutes * 60 * 1000)
+    );
+    return clamp(slotIndex, 0, Math.max(0, slotCount - 1));
+  }
   const parts = startTime.split(":");
   const startHour = Number.parseInt(parts[0] ?? "", 10);
   const startMinute = Number.parseInt(parts[1] ?? "", 10);
@@ -141,3 +149,55 @@ export function getCurrentSlotIndex(
   const slotIndex = Math.floor(diffMs / (slotMinutes * 60 * 1000));
   return clamp(slotIndex, 0, Math.max(0, slotCount - 1));
 }
+
+function getDayKey(date: Date): string {
+  return `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+}
+
+export function getDayStartSlots(slotTimes: string[] | undefined): number[] {
+  if (!slotTimes?.length) return [0];
+  const starts: number[] = [];
+  let lastKey = "";
+  slotTimes.forEach((iso, index) => {
+    const key = getDayKey(new Date(iso));
+    if (key !== lastKey) {
+      starts.push(index);
+      lastKey = key;
+    }
+  });
+  return starts;
+}
+
+export function getDayPageSlot(
+  slotTimes: string[] | undefined,
+  selectedCol: number,
+  currentSlotIndex: number,
+  dir: "prev" | "next" | "today"
+): number {
+  if (dir === "today") return currentSlotIndex;
+  const starts = getDayStartSlots(slotTimes);
+  const dayIndex = starts.reduce(
+    (found, start, index) => (start <= selectedCol ? index : found),
+    0
+  );
+  if (dir === "next") {
+    return starts[dayIndex + 1] ?? selectedCol;
+  }
+  const target = starts[Math.max(0, dayIndex - 1)] ?? 0;
+  return Math.max(target, currentSlotIndex);
+}
+
+export function formatSlotDate(iso: string | undefined, now: Date): string | null {
+  if (!iso) return null;
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return null;
+  const tomorrow = new Date(now);
+  tomorrow.setDate(now.getDate() + 1);
+  if (getDayKey(date) === getDayKey(now)) return "Today";
+  if (getDayKey(date) === getDayKey(tomorrow)) return "Tomorrow";
+  return date.toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+}
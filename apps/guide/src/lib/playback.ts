@@ -0,0 +1,109 @@
+export function getPlaybackOffsetSec(
+  startAt: number,
+  durationSec: number | null | undefined,
+  nowMs: number = Date.now()
+): number {
+  const elapsed = Math.max(0, (nowMs - startAt) / 1000);
+  if (!durationSec || !Number.isFinite(durationSec) || durationSec <= 0) {
+    return elapsed;
+  }
+  return elapsed % durationSec;
+}
+
+export function getMediaDuration(
+  media: HTMLMediaElement,
+  fallbackSec?: number
+): number | null {
+  if (Number.isFinite(media.duration) && media.duration > 0) {
+    return media.duration;
+  }
+  if (typeof fallbackSec === "number" && fallbackSec > 0) return fallbackSec;
+  return null;
+}
+
+export function syncMediaToSchedule(
+  media: HTMLMediaElement,
+  startAt: number,
+  options: {
+    fallbackDurationSec?: number;
+    toleranceSec: number;
+    force?: boolean;
+    loop?: boolean;
+    nowMs?: number;
+  }
+): { target: number; drift: number } | null {
+  if (media.readyState < 1) return null;
+  const loop = options.loop ?? true;
+  const duration = getMediaDuration(media, options.fallbackDurationSec);
+  const target = getPlaybackOffsetSec(
+    startAt,
+    loop ? duration : null,
+    options.nowMs
+  );
+  if (!loop && duration && target >= duration) return null;
+  const rawDrift = Math.abs(media.currentTime - target);
+  const drift =
+    loop && duration ? Math.min(rawDrift, duration - rawDrift) : rawDrift;
+  if (!options.force && drift < options.toleranceSec) return null;
+  try {
+    media.currentTime = target;
+  } catch {
+    return null;
+  }
+  return { target, drift };
+}
+
+// Keeps grouped screens frame-aligned without visible jumps: small drift is
+// absorbed by nudging playbackRate, anything past seekThresholdSec is a seek.
+export function alignMediaToSchedule(
+  media: HTMLMediaElement,
+  startAt: number,
+  options: {
+    fallbackDurationSec?: number;
+    toleranceSec: number;
+    seekThresholdSec: number;
+    maxRateDelta: number;
+    loop?: boolean;
+    nowMs: number;
+  }
+): { target: number; drift: number; rate: number } | null {
+  if (media.readyState < 1) return null;
+  const loop = options.loop ?? true;
+  const duration = getMediaDuration(media, options.fallbackDurationSec);
+  const target = getPlaybackOffsetSec(
+    startAt,
+    loop ? duration : null,
+    options.nowMs
+  );
+  if (!loop && duration && target >= duration) return null;
+  let delta = target - media.currentTime;
+  if (loop && duration) {
+    if (delta > duration / 2) delta -= duration;
+    if (delta < -duration / 2) delta += duration;
+  }
+  const drift = Math.abs(delta);
+  if (drift >= options.seekThresholdSec) {
+    try {
+      media.currentTime = target;
+      media.playbackRate = 1;
+    } catch {
+      return null;
+    }
+    return { target, drift, rate: 1 };
+  }
+  const rate =
+    drift < options.toleranceSec
+      ? 1
+      : 1 +
+        Math.max(-options.maxRateDelta, Math.min(options.maxRateDelta, delta));
+  if (media.playbackRate !== rate) {
+    media.playbackRate = rate;
+  }
+  return { target, drift, rate };
+}
+
+export function resetPlaybackRate(media: HTMLMediaElement): void {
+  if (media.playbackRate !== 1) {
+    media.playbackRate = 1;
+  }
+}
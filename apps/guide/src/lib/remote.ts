@@ -1,7 +1,9 @@
-import { PARAM_WS } from "../constants/params";
+import { PARAM_PAIR, PARAM_WS } from "../constants/params";
+import type { MessageTarget, ScreenSummary } from "../types/guide";
 
-const QR_BASE =
-  "https://api.qrserver.com/v1/create-qr-code/?size=180x180&margin=0&data=";
+// Rendered by the cable server so the QR works on an offline LAN.
+const QR_ENDPOINT = "/api/qr.svg";
+const QR_SIZE = 180;
 
 export function getWsUrl(): string {
   const params = new URLSearchParams(window.location.search);
@@ -11,6 +13,22 @@ export function getWsUrl(): string {
   return `${protocol}//${window.location.host}/ws`;
 }
 
+// Screens a target addresses, or null when it addresses every screen.
+export function getTargetScreenIds(
+  target: MessageTarget | undefined,
+  screens: ScreenSummary[]
+): string[] | null {
+  if (!target || target === "all") return null;
+  if (target.startsWith("screen:")) return [target.slice("screen:".length)];
+  if (target.startsWith("group:")) {
+    const group = target.slice("group:".length);
+    return screens
+      .filter((screen) => screen.groups.includes(group))
+      .map((screen) => screen.screenId);
+  }
+  return [];
+}
+
 type RemoteUrlOptions = {
   hostOverride?: string | null;
   forceHttps?: boolean;
@@ -55,9 +73,34 @@ export function resolveRemoteBaseUrl(options: RemoteUrlOptions): string {
   return normalizeBase(`${location.protocol}//${location.host}`, forceHttps);
 }
 
+export type QrColors = {
+  fg: string;
+  bg: string;
+};
+
+export function getQrImageUrl(data: string, colors?: QrColors): string {
+  const params = new URLSearchParams({ size: String(QR_SIZE), data });
+  if (colors) {
+    params.set("fg", colors.fg);
+    params.set("bg", colors.bg);
+  }
+  return `${QR_ENDPOINT}?${params.toString()}`;
+}
+
+// The remote URL a screen's QR should encode so scanning it also pairs.
+export function withPairCode(remoteUrl: string, code: string): string {
+  try {
+    const url = new URL(remoteUrl);
+    url.searchParams.set(PARAM_PAIR, code);
+    return url.toString();
+  } catch {
+    return `${remoteUrl}?${PARAM_PAIR}=${encodeURIComponent(code)}`;
+  }
+}
+
 export function buildRemoteUrls(options: RemoteUrlOptions) {
   const baseUrl = resolveRemoteBaseUrl(options);
   const remoteUrl = `${baseUrl}/remote`;
-  const qrUrl = `${QR_BASE}${encodeURIComponent(remoteUrl)}`;
+  const qrUrl = getQrImageUrl(remoteUrl);
   return { baseUrl, remoteUrl, qrUrl };
 }
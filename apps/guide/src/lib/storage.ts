@@ -54,3 +54,56 @@ export function loadScreenId(): string {
     return "";
   }
 }
+
+export function ensureScreenId(): string {
+  const existing = loadScreenId();
+  if (existing) return existing;
+  const generated = `screen-${Math.random().toString(36).slice(2, 8)}`;
+  try {
+    window.localStorage.setItem("chiba:screen", generated);
+  } catch {
+    // ignore storage errors
+  }
+  return generated;
+}
+
+export function loadRemoteTarget(): string {
+  if (typeof window === "undefined") return "all";
+  try {
+    return window.localStorage.getItem("chiba:remote-target") ?? "all";
+  } catch {
+    return "all";
+  }
+}
+
+export function saveRemoteTarget(target: string): void {
+  if (typeof window === "undefined") return;
+  try {
+    window.localStorage.setItem("chiba:remote-target", target);
+  } catch {
+    // ignore storage errors
+  }
+}
+
+// A pairing session token, or the admin token on operator devices.
+export function loadRemoteToken(): string {
+  if (typeof window === "undefined") return "";
+  try {
+    return window.localStorage.getItem("chiba:remote-token") ?? "";
+  } catch {
+    return "";
+  }
+}
+
+export function saveRemoteToken(token: string): void {
+  if (typeof window === "undefined") return;
+  try {
+    if (token) {
+      window.localStorage.setItem("chiba:remote-token", token);
+    } else {
+      window.localStorage.removeItem("chiba:remote-token");
+    }
+  } catch {
+    // ignore storage errors
+  }
+}
@@ -2,9 +2,12 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { AdminScreensView } from './views/AdminScreensView.tsx'
+
+const isAdminScreens = window.location.pathname.startsWith('/admin/screens')
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {isAdminScreens ? <AdminScreensView /> : <App />}
   </StrictMode>,
 )
@@ -1,7 +1,11 @@
+import type { QrColors } from "./lib/remote";
+
 export type ThemeProfile = {
   id: string;
   label: string;
   vars: Record<string, string>;
+  // Dark-on-light so every phone camera can read it, tinted to the theme.
+  qr: QrColors;
 };
 
 export const DEFAULT_THEME_ID = "nebula";
@@ -40,6 +44,7 @@ export const THEMES: ThemeProfile[] = [
       "--panel-footer-line": "rgba(126, 215, 255, 0.2)",
       "--qr-bg": "rgba(10, 18, 34, 0.88)",
     },
+    qr: { fg: "#0a1121", bg: "#d9f2ff" },
   },
   {
     id: "gallery",
@@ -74,6 +79,7 @@ export const THEMES: ThemeProfile[] = [
       "--panel-footer-line": "rgba(150, 200, 255, 0.35)",
       "--qr-bg": "rgba(12, 20, 36, 0.9)",
     },
+    qr: { fg: "#0a0e18", bg: "#e6f1ff" },
   },
   {
     id: "noir",
@@ -108,6 +114,7 @@ export const THEMES: ThemeProfile[] = [
       "--panel-footer-line": "rgba(120, 150, 190, 0.2)",
       "--qr-bg": "rgba(10, 14, 22, 0.9)",
     },
+    qr: { fg: "#07090f", bg: "#ccd8e8" },
   },
 ];
 
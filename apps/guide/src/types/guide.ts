@@ -1,9 +1,26 @@
+import type { ScreenSummary, ViewMode } from "@chiba-cable/protocol";
+
+export type {
+  ClientRole,
+  ControlValue,
+  ProtocolMessage as RemoteMessage,
+  RemoteControl,
+  ScreenSummary,
+  SensorKind,
+  ViewMode,
+} from "@chiba-cable/protocol";
+
 export type ProgramSlot = {
   title: string;
   subtitle?: string;
   tag?: string;
   url?: string;
   durationSec?: number;
+  mediaDurationSec?: number;
+  fillerUrl?: string;
+  overrideId?: string;
+  startAt?: number;
+  endAt?: number;
   start: number;
   span: number;
   end: number;
@@ -29,7 +46,9 @@ export type GuideIndex = {
   slotMinutes: number;
   slotCount: number;
   startTime: string;
+  horizonDays?: number;
   timeSlots: string[];
+  slotTimes?: string[];
   channels: GuideChannel[];
 };
 
@@ -38,6 +57,26 @@ export type PlayerMeta = {
   subtitle?: string;
   channelName?: string;
   callSign?: string;
+  startAt?: number;
+  durationSec?: number;
+  mediaDurationSec?: number;
+  fillerUrl?: string;
+};
+
+export type ConfigDiagnostic = {
+  severity: "error" | "warning";
+  file: string;
+  line?: number;
+  column?: number;
+  message: string;
+};
+
+export type ConfigDiagnostics = {
+  checkedAt: number;
+  configPath: string;
+  errors: number;
+  warnings: number;
+  diagnostics: ConfigDiagnostic[];
 };
 
 export type MediaDebugStats = {
@@ -57,6 +96,33 @@ export type MediaDebugStats = {
   }>;
 };
 
+export type CaptureHealth =
+  | "ok"
+  | "stale"
+  | "frozen"
+  | "crashed"
+  | "navigated"
+  | "failed";
+
+export type CaptureDebugStatus = {
+  channelId: string;
+  url: string;
+  state: "stopped" | "starting" | "running";
+  health: CaptureHealth;
+  viewers: number;
+  lastFrameAt: number | null;
+  lastUsedAt: number | null;
+  restarts: number;
+  lastError: string | null;
+  lastErrorAt: number | null;
+  idleTimeoutSec: number;
+};
+
+export type CaptureDebugStats = {
+  browserRunning: boolean;
+  captures: CaptureDebugStatus[];
+};
+
 export type DisplaySettings = {
   scale?: number;
   textScale?: number;
@@ -79,71 +145,36 @@ export type PreloadEntry = {
   lastUsed: number;
 };
 
-export type RemoteControl =
-  | {
-      id: string;
-      label: string;
-      type: "range";
-      min: number;
-      max: number;
-      step?: number;
-      value?: number;
-    }
-  | {
-      id: string;
-      label: string;
-      type: "select";
-      options: { value: string; label: string }[];
-      value?: string;
-    }
-  | {
-      id: string;
-      label: string;
-      type: "toggle";
-      value?: boolean;
-    }
-  | {
-      id: string;
-      label: string;
-      type: "button";
-    };
-
-export type RemoteMessage =
-  | { type: "nav"; dir: "up" | "down" | "left" | "right" }
-  | { type: "channel"; dir: "up" | "down" }
-  | { type: "tune"; number: string }
-  | { type: "dial"; value: string; committed?: boolean }
-  | { type: "volume"; dir: "up" | "down" }
-  | { type: "mute"; muted?: boolean }
-  | { type: "select" }
-  | { type: "guide" }
-  | { type: "info" }
-  | { type: "app"; appId?: string | null }
-  | { type: "index" }
-  | {
-      type: "now";
-      channelId?: string;
-      number?: string;
-      title?: string;
-      url?: string;
-    }
-  | { type: "godselect"; channelId: string; url: string }
-  | { type: "controls"; appId: string; controls: RemoteControl[] }
-  | {
-      type: "control";
-      appId: string;
-      controlId: string;
-      value?: number | string | boolean;
-    }
-  | {
-      type: "display";
-      scale?: number | null;
-      textScale?: number | null;
-      hours?: number | null;
-      theme?: string | null;
-      screenId?: string | null;
-    };
+export type TakeoverState = {
+  url?: string;
+  title?: string;
+  message?: string;
+  until?: number | null;
+  startedAt?: number;
+};
+
+export type ScreenInfo = ScreenSummary & {
+  online: boolean;
+  connections: number;
+  ip: string | null;
+  userAgent: string | null;
+  connectedAt: number;
+  disconnectedAt: number | null;
+  lastHeartbeatAt: number;
+  view: ViewMode | null;
+  now: {
+    channelId?: string;
+    number?: string;
+    title?: string;
+    url?: string;
+    updatedAt: number;
+  } | null;
+  appId: string | null;
+  volume: number | null;
+  muted: boolean | null;
+};
 
-export type RemoteStatus = "connecting" | "open" | "closed";
+// "all", "screen:<id>" or "group:<name>"; omitted means every screen.
+export type MessageTarget = string;
 
-export type ViewMode = "guide" | "remote" | "art";
+export type RemoteStatus = "connecting" | "open" | "closed";
@@ -0,0 +1,225 @@
+import { useEffect, useMemo, useState } from "react";
+import { useRemotePairing } from "../hooks/useRemotePairing";
+import { useRemoteSocket } from "../hooks/useRemoteSocket";
+import { createLogger } from "../lib/logger";
+import type { RemoteMessage, ScreenInfo } from "../types/guide";
+import "../App.css";
+
+const log = createLogger("admin-screens");
+
+const formatAgo = (timestamp: number | null, now: number) => {
+  if (!timestamp) return "—";
+  const seconds = Math.max(0, Math.round((now - timestamp) / 1000));
+  if (seconds < 60) return `${seconds}s ago`;
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes}m ago`;
+  return `${Math.round(minutes / 60)}h ago`;
+};
+
+const formatAgent = (userAgent: string | null) => {
+  if (!userAgent) return "unknown";
+  if (/CrOS|Raspbian|armv7|aarch64/i.test(userAgent)) return "Pi / Linux ARM";
+  const match = userAgent.match(/(Firefox|Chrome|Safari)\/[\d.]+/);
+  return match ? match[0] : userAgent.slice(0, 40);
+};
+
+export function AdminScreensView() {
+  const [screens, setScreens] = useState<ScreenInfo[]>([]);
+  const [fetchedAt, setFetchedAt] = useState(0);
+  const [tuneValues, setTuneValues] = useState<Record<string, string>>({});
+  const [locked, setLocked] = useState(false);
+  // Set when /api/screens turns us away; the list is admin-only even with
+  // pairing off, which the welcome message alone does not tell us.
+  const [authError, setAuthError] = useState<string | null>(null);
+  const [tokenDraft, setTokenDraft] = useState("");
+  const { token, saveToken } = useRemotePairing(true);
+  const hello = useMemo<Extract<RemoteMessage, { type: "hello" }>>(
+    () => ({ type: "hello", role: "remote", token: token || undefined }),
+    [token]
+  );
+  const { send, status } = useRemoteSocket(
+    (msg) => {
+      if (msg.type === "welcome") {
+        setLocked(msg.pairingRequired && !msg.admin);
+      }
+    },
+    { hello }
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    const fetchScreens = async () => {
+      try {
+        const res = await fetch("/api/screens", {
+          headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+        });
+        if (res.status === 401) {
+          const data = (await res.json().catch(() => ({}))) as {
+            message?: string;
+          };
+          if (!cancelled) {
+            setAuthError(
+              data.message ?? "The screen list needs the admin token."
+            );
+            setScreens([]);
+          }
+          return;
+        }
+        if (!res.ok) {
+          log.warn("screens-status", { status: res.status });
+          return;
+        }
+        const data = (await res.json()) as { screens: ScreenInfo[] };
+        if (!cancelled) {
+          setAuthError(null);
+          setScreens(data.screens ?? []);
+          setFetchedAt(Date.now());
+        }
+      } catch (error) {
+        log.warn("screens-failed", error);
+      }
+    };
+    void fetchScreens();
+    const interval = window.setInterval(fetchScreens, 2000);
+    return () => {
+      cancelled = true;
+      window.clearInterval(interval);
+    };
+  }, [token]);
+
+  const onlineCount = screens.filter((screen) => screen.online).length;
+
+  const tune = (screenId: string) => {
+    const number = tuneValues[screenId]?.trim();
+    if (!number) return;
+    send({ type: "tune", number, target: `screen:${screenId}` });
+    setTuneValues((prev) => ({ ...prev, [screenId]: "" }));
+  };
+
+  return (
+    <div className="admin-shell">
+      <div className="admin-header">
+        <div className="admin-title">Chiba Cable · Screens</div>
+        <div className="admin-summary">
+          {onlineCount} online · {screens.length - onlineCount} offline
+        </div>
+        <div className={`remote-status ${status}`}>
+          {status === "open" ? "Connected" : "Connecting..."}
+        </div>
+      </div>
+      {locked || authError ? (
+        <form
+          className="admin-auth"
+          onSubmit={(event) => {
+            event.preventDefault();
+            saveToken(tokenDraft.trim());
+            setTokenDraft("");
+          }}
+        >
+          <span>
+            {token ? "Admin token rejected." : "Controls need the admin token."}
+          </span>
+          <input
+            type="password"
+            placeholder="Admin token"
+            value={tokenDraft}
+            onChange={(event) => setTokenDraft(event.currentTarget.value)}
+          />
+          <button type="submit" disabled={!tokenDraft.trim()}>
+            Unlock
+          </button>
+        </form>
+      ) : null}
+      {screens.length ? (
+        <div className="admin-grid">
+          {screens.map((screen) => (
+            <div
+              key={screen.screenId}
+              className={`admin-card ${screen.online ? "is-online" : "is-offline"}`}
+            >
+              <div className="admin-card-top">
+                <div className="admin-card-id">{screen.screenId}</div>
+                <div className="admin-card-state">
+                  {screen.online
+                    ? `Online${screen.connections > 1 ? ` ×${screen.connections}` : ""}`
+                    : `Offline ${formatAgo(screen.disconnectedAt, fetchedAt)}`}
+                </div>
+              </div>
+              <div className="admin-card-now">
+                {screen.now?.number ? `${screen.now.number} · ` : ""}
+                {screen.now?.title ?? screen.now?.channelId ?? "Guide"}
+              </div>
+              <dl className="admin-card-meta">
+                <dt>View</dt>
+                <dd>{screen.view ?? "—"}</dd>
+                <dt>Volume</dt>
+                <dd>
+                  {screen.muted
+                    ? "Muted"
+                    : screen.volume === null
+                      ? "—"
+                      : `${Math.round(screen.volume * 100)}%`}
+                </dd>
+                <dt>Groups</dt>
+                <dd>{screen.groups.length ? screen.groups.join(", ") : "—"}</dd>
+                <dt>Address</dt>
+                <dd>{screen.ip ?? "—"}</dd>
+                <dt>Client</dt>
+                <dd title={screen.userAgent ?? undefined}>
+                  {formatAgent(screen.userAgent)}
+                </dd>
+                <dt>Connected</dt>
+                <dd>{formatAgo(screen.connectedAt, fetchedAt)}</dd>
+                <dt>Heartbeat</dt>
+                <dd>{formatAgo(screen.lastHeartbeatAt, fetchedAt)}</dd>
+              </dl>
+              {screen.online ? (
+                <div className="admin-card-actions">
+                  <form
+                    className="admin-tune"
+                    onSubmit={(event) => {
+                      event.preventDefault();
+                      tune(screen.screenId);
+                    }}
+                  >
+                    <input
+                      inputMode="numeric"
+                      placeholder="Ch"
+                      value={tuneValues[screen.screenId] ?? ""}
+                      onChange={(event) => {
+                        const value = event.currentTarget.value;
+                        setTuneValues((prev) => ({
+                          ...prev,
+                          [screen.screenId]: value,
+                        }));
+                      }}
+                    />
+                    <button type="submit">Tune</button>
+                  </form>
+                  <button
+                    onClick={() =>
+                      send({ type: "mute", target: `screen:${screen.screenId}` })
+                    }
+                  >
+                    {screen.muted ? "Unmute" : "Mute"}
+                  </button>
+                  <button
+                    onClick={() =>
+                      send({ type: "reload", target: `screen:${screen.screenId}` })
+                    }
+                  >
+                    Reload
+                  </button>
+                </div>
+              ) : null}
+            </div>
+          ))}
+        </div>
+      ) : authError ? (
+        <div className="admin-empty">{authError}</div>
+      ) : (
+        <div className="admin-empty">No screens have connected yet.</div>
+      )}
+    </div>
+  );
+}
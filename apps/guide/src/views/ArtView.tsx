@@ -3,6 +3,8 @@ import { DialOverlay } from "../components/DialOverlay";
 import { VolumeHud } from "../components/VolumeHud";
 import type {
   GuideChannel,
+  CaptureDebugStats,
+  ConfigDiagnostics,
   MediaDebugStats,
   ProgramSlot,
 } from "../types/guide";
@@ -15,6 +17,8 @@ type ArtViewProps = {
   showDebug: boolean;
   memoryStats: MemoryStats | null;
   mediaStats: MediaDebugStats | null;
+  configDiagnostics: ConfigDiagnostics | null;
+  captureStats: CaptureDebugStats | null;
   dialOverlay: string;
   masterVolume: number;
   masterMuted: boolean;
@@ -29,6 +33,8 @@ export function ArtView({
   showDebug,
   memoryStats,
   mediaStats,
+  configDiagnostics,
+  captureStats,
   dialOverlay,
   masterVolume,
   masterMuted,
@@ -63,7 +69,13 @@ export function ArtView({
         muted={masterMuted}
         visible={showVolumeHud}
       />
-      <DebugPanel show={showDebug} memoryStats={memoryStats} mediaStats={mediaStats} />
+      <DebugPanel
+        show={showDebug}
+        memoryStats={memoryStats}
+        mediaStats={mediaStats}
+        configDiagnostics={configDiagnostics}
+        captureStats={captureStats}
+      />
       <DialOverlay value={dialOverlay} />
     </div>
   );
@@ -9,6 +9,8 @@ import { VolumeHud } from "../components/VolumeHud";
 import type {
   GuideChannel,
   GuideIndex,
+  CaptureDebugStats,
+  ConfigDiagnostics,
   MediaDebugStats,
   MediaKind,
   PlayerMeta,
@@ -44,6 +46,7 @@ type GuideViewProps = {
   onToggleDebug: () => void;
   showQr: boolean;
   qrUrl: string;
+  pairCode: string | null;
   playerUrl: string | null;
   playerKind: MediaKind | null;
   playerMeta: PlayerMeta | null;
@@ -58,9 +61,13 @@ type GuideViewProps = {
   masterMuted: boolean;
   showVolumeHud: boolean;
   setPlayerReady: (ready: boolean) => void;
+  clockOffsetMs: number;
+  syncToleranceMs: number | null;
   showDebug: boolean;
   memoryStats: MemoryStats | null;
   mediaStats: MediaDebugStats | null;
+  configDiagnostics: ConfigDiagnostics | null;
+  captureStats: CaptureDebugStats | null;
   dialOverlay: string;
 };
 
@@ -93,6 +100,7 @@ export function GuideView({
   onToggleDebug,
   showQr,
   qrUrl,
+  pairCode,
   playerUrl,
   playerKind,
   playerMeta,
@@ -102,9 +110,13 @@ export function GuideView({
   masterMuted,
   showVolumeHud,
   setPlayerReady,
+  clockOffsetMs,
+  syncToleranceMs,
   showDebug,
   memoryStats,
   mediaStats,
+  configDiagnostics,
+  captureStats,
   dialOverlay,
 }: GuideViewProps) {
   return (
@@ -158,6 +170,7 @@ export function GuideView({
         <div className="qr-card">
           <div className="qr-label">Remote</div>
           <img className="qr-image" src={qrUrl} alt="Remote QR code" />
+          {pairCode ? <div className="qr-code">{pairCode}</div> : null}
         </div>
       ) : null}
 
@@ -174,12 +187,16 @@ export function GuideView({
         masterVolume={masterVolume}
         masterMuted={masterMuted}
         setPlayerReady={setPlayerReady}
+        clockOffsetMs={clockOffsetMs}
+        syncToleranceMs={syncToleranceMs}
       />
 
       <DebugPanel
         show={showDebug}
         memoryStats={memoryStats}
         mediaStats={mediaStats}
+        configDiagnostics={configDiagnostics}
+        captureStats={captureStats}
       />
       <DialOverlay value={dialOverlay} />
     </div>
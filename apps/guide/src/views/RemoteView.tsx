@@ -4,15 +4,24 @@ import {
   DisplayTuningPanel,
   type DisplayTuningPayload,
 } from "../components/DisplayTuningPanel";
+import { RemoteAppControls } from "../components/RemoteAppControls";
+import { RemotePairPanel } from "../components/RemotePairPanel";
+import { RemoteSensorsPanel } from "../components/RemoteSensorsPanel";
 import type {
   GuideChannel,
+  CaptureDebugStats,
+  ConfigDiagnostics,
+  ControlValue,
   MediaDebugStats,
   ProgramSlot,
   RemoteControl,
   RemoteMessage,
   RemoteStatus,
+  ScreenSummary,
+  SensorKind,
 } from "../types/guide";
 import type { RemoteControlsStatus } from "../hooks/useRemoteControls";
+import type { RemoteAuth, RemotePairing } from "../hooks/useRemotePairing";
 
 type GodmodeItem = {
   id: string;
@@ -22,6 +31,13 @@ type GodmodeItem = {
 
 type RemoteViewProps = {
   status: RemoteStatus;
+  screens: ScreenSummary[];
+  remoteTarget: string;
+  onRemoteTargetChange: (target: string) => void;
+  remoteAuth: RemoteAuth | null;
+  pairing: RemotePairing;
+  nowChannel: { number?: string; title?: string } | null;
+  screenStatus: { volume?: number; muted?: boolean } | null;
   uiScale: number;
   textScale: number;
   visibleHours: number;
@@ -39,18 +55,29 @@ type RemoteViewProps = {
   hasAppControls: boolean;
   remoteControlsStatus: RemoteControlsStatus;
   remoteControls: RemoteControl[];
-  handleRemoteControl: (controlId: string, value: number | string | boolean) => void;
+  remoteSensors: SensorKind[];
+  activeRemoteAppId: string;
+  handleRemoteControl: (controlId: string, value: ControlValue) => void;
   remotePanel: "remote" | "app";
   setRemotePanel: (panel: "remote" | "app") => void;
   pushDialDigit: (digit: number) => void;
   showDebug: boolean;
   memoryStats: MemoryStats | null;
   mediaStats: MediaDebugStats | null;
+  configDiagnostics: ConfigDiagnostics | null;
+  captureStats: CaptureDebugStats | null;
   dialOverlay: string;
 };
 
 export function RemoteView({
   status,
+  screens,
+  remoteTarget,
+  onRemoteTargetChange,
+  remoteAuth,
+  pairing,
+  nowChannel,
+  screenStatus,
   uiScale,
   textScale,
   visibleHours,
@@ -68,6 +95,8 @@ export function RemoteView({
   hasAppControls,
   remoteControlsStatus,
   remoteControls,
+  remoteSensors,
+  activeRemoteAppId,
   handleRemoteControl,
   remotePanel,
   setRemotePanel,
@@ -75,8 +104,46 @@ export function RemoteView({
   showDebug,
   memoryStats,
   mediaStats,
+  configDiagnostics,
+  captureStats,
   dialOverlay,
 }: RemoteViewProps) {
+  const groups = Array.from(
+    new Set(screens.flatMap((screen) => screen.groups))
+  ).sort();
+  const hasTarget =
+    remoteTarget === "all" ||
+    screens.some((screen) => `screen:${screen.screenId}` === remoteTarget) ||
+    groups.some((group) => `group:${group}` === remoteTarget);
+  const isAdmin = Boolean(remoteAuth?.admin);
+  const pairedScreenId = isAdmin ? null : (remoteAuth?.pairedScreenId ?? null);
+  const needsPairing =
+    Boolean(remoteAuth?.pairingRequired) && !isAdmin && !pairedScreenId;
+
+  const remoteTop = (
+    <div className="remote-top">
+      <div className="remote-title">Chiba Cable</div>
+      <div className={`remote-status ${status}`}>
+        {status === "open" ? "Connected" : "Connecting..."}
+      </div>
+    </div>
+  );
+
+  if (needsPairing) {
+    return (
+      <div className="remote-shell">
+        <div className="remote-body">
+          {remoteTop}
+          <RemotePairPanel
+            status={pairing.pairStatus}
+            error={pairing.pairError}
+            onPair={(code) => void pairing.pair(code)}
+          />
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div
       className={`remote-shell ${hasAppControls ? "app-active" : ""} ${
@@ -84,11 +151,57 @@ export function RemoteView({
       }`}
     >
       <div className="remote-body">
-        <div className="remote-top">
-          <div className="remote-title">Chiba Cable</div>
-          <div className={`remote-status ${status}`}>
-            {status === "open" ? "Connected" : "Connecting..."}
+        {remoteTop}
+
+        {pairedScreenId ? (
+          <div className="remote-target remote-paired">
+            <span className="remote-control-label">Paired</span>
+            <div className="remote-paired-row">
+              <span>{pairedScreenId}</span>
+              <button onClick={pairing.unpair}>Unpair</button>
+            </div>
           </div>
+        ) : (
+          <label className="remote-target">
+            <span className="remote-control-label">Driving</span>
+            <select
+              value={remoteTarget}
+              onChange={(event) =>
+                onRemoteTargetChange(event.currentTarget.value)
+              }
+            >
+              <option value="all">All screens</option>
+              {groups.map((group) => (
+                <option key={group} value={`group:${group}`}>
+                  Group · {group}
+                </option>
+              ))}
+              {screens.map((screen) => (
+                <option
+                  key={screen.screenId}
+                  value={`screen:${screen.screenId}`}
+                >
+                  {screen.screenId}
+                </option>
+              ))}
+              {hasTarget ? null : (
+                <option value={remoteTarget}>
+                  {remoteTarget.replace(/^(screen|group):/, "")} (offline)
+                </option>
+              )}
+            </select>
+          </label>
+        )}
+
+        <div className="remote-screen">
+          {nowChannel
+            ? [nowChannel.number, nowChannel.title].filter(Boolean).join(" · ")
+            : "Guide"}
+          {screenStatus?.muted
+            ? " · Muted"
+            : typeof screenStatus?.volume === "number"
+              ? ` · Vol ${Math.round(screenStatus.volume * 100)}`
+              : ""}
         </div>
 
         {isRemoteDebug ? (
@@ -192,109 +305,17 @@ export function RemoteView({
               </div>
             ) : null}
             {remoteControls.length ? (
-              <div className="remote-app-controls">
-                {remoteControls.map((control) => {
-                  if (control.type === "range") {
-                    const value =
-                      typeof control.value === "number"
-                        ? control.value
-                        : control.min;
-                    return (
-                      <label
-                        key={control.id}
-                        className="remote-control remote-range"
-                      >
-                        <span className="remote-control-label">
-                          {control.label}
-                          <span className="remote-control-value">
-                            {value.toFixed(2)}
-                          </span>
-                        </span>
-                        <input
-                          type="range"
-                          min={control.min}
-                          max={control.max}
-                          step={control.step ?? 0.1}
-                          value={value}
-                          onChange={(event) =>
-                            handleRemoteControl(
-                              control.id,
-                              Number(event.currentTarget.value)
-                            )
-                          }
-                        />
-                      </label>
-                    );
-                  }
-                  if (control.type === "select") {
-                    const value =
-                      control.value ?? control.options[0]?.value ?? "";
-                    return (
-                      <label
-                        key={control.id}
-                        className="remote-control remote-select"
-                      >
-                        <span className="remote-control-label">
-                          {control.label}
-                        </span>
-                        <select
-                          value={value}
-                          onChange={(event) =>
-                            handleRemoteControl(
-                              control.id,
-                              event.currentTarget.value
-                            )
-                          }
-                        >
-                          {control.options.map((option) => (
-                            <option key={option.value} value={option.value}>
-                              {option.label}
-                            </option>
-                          ))}
-                        </select>
-                      </label>
-                    );
-                  }
-                  if (control.type === "toggle") {
-                    const value = Boolean(control.value);
-                    return (
-                      <div
-                        key={control.id}
-                        className="remote-control remote-toggle"
-                      >
-                        <span className="remote-control-label">
-                          {control.label}
-                        </span>
-                        <button
-                          className={value ? "is-on" : ""}
-                          onClick={() =>
-                            handleRemoteControl(control.id, !value)
-                          }
-                        >
-                          {value ? "On" : "Off"}
-                        </button>
-                      </div>
-                    );
-                  }
-                  return (
-                    <div
-                      key={control.id}
-                      className="remote-control remote-button"
-                    >
-                      <span className="remote-control-label">
-                        {control.label}
-                      </span>
-                      <button
-                        onClick={() =>
-                          handleRemoteControl(control.id, Date.now())
-                        }
-                      >
-                        Trigger
-                      </button>
-                    </div>
-                  );
-                })}
-              </div>
+              <RemoteAppControls
+                controls={remoteControls}
+                onChange={handleRemoteControl}
+              />
+            ) : null}
+            {remoteSensors.length ? (
+              <RemoteSensorsPanel
+                key={activeRemoteAppId}
+                sensors={remoteSensors}
+                onSample={handleRemoteControl}
+              />
             ) : null}
           </div>
         ) : (
@@ -355,6 +376,15 @@ export function RemoteView({
               <button onClick={() => send({ type: "guide" })}>Guide</button>
               <button onClick={() => send({ type: "info" })}>Info</button>
               <button onClick={() => send({ type: "mute" })}>Mute</button>
+              <button onClick={() => send({ type: "day", dir: "prev" })}>
+                Prev Day
+              </button>
+              <button onClick={() => send({ type: "day", dir: "today" })}>
+                Now
+              </button>
+              <button onClick={() => send({ type: "day", dir: "next" })}>
+                Next Day
+              </button>
             </div>
 
             <button
@@ -388,7 +418,13 @@ export function RemoteView({
           </>
         )}
       </div>
-      <DebugPanel show={showDebug} memoryStats={memoryStats} mediaStats={mediaStats} />
+      <DebugPanel
+        show={showDebug}
+        memoryStats={memoryStats}
+        mediaStats={mediaStats}
+        configDiagnostics={configDiagnostics}
+        captureStats={captureStats}
+      />
       <DialOverlay value={dialOverlay} />
     </div>
   );
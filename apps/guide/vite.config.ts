@@ -11,6 +11,8 @@ export default defineConfig({
     proxy: {
       "/api": {
         target: "http://localhost:8787",
+        // Lets the server tell phones apart for the pairing lockout.
+        xfwd: true,
       },
       "/media": {
         target: "http://localhost:8787",
@@ -18,13 +20,10 @@ export default defineConfig({
       "/village": {
         target: "http://localhost:8787",
       },
-      "/village.jpg": {
-        target: "http://localhost:8787",
-      },
       "/weatherstar": {
         target: "http://localhost:8787",
       },
-      "/weatherstar.jpg": {
+      "/capture": {
         target: "http://localhost:8787",
       },
       "/mars": {
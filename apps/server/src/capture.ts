@@ -0,0 +1,626 @@
+import crypto from 'node:crypto';
+import { chromium, type Browser, type BrowserContext, type Page } from 'playwright';
+import type { ChannelCaptureConfig, ChannelCaptureStep, ChannelManifest } from './config.js';
+
+export type CaptureOptions = {
+  channelId: string;
+  url: string;
+  width: number;
+  height: number;
+  intervalMs: number;
+  settleMs: number;
+  quality: number;
+  fit: 'contain' | 'cover';
+  background: string;
+  scripts: string[];
+  css: string[];
+  dismissSelectors: string[];
+  steps: ChannelCaptureStep[];
+  idleTimeoutMs: number;
+  staleIntervals: number;
+  freezeTimeoutMs: number;
+};
+
+export type CaptureState = 'stopped' | 'starting' | 'running';
+
+// 'ok' once a run captures its first frame; otherwise the last problem the
+// watchdog restarted it for.
+export type CaptureHealth = 'ok' | 'stale' | 'frozen' | 'crashed' | 'navigated' | 'failed';
+
+export type CaptureStatus = {
+  channelId: string;
+  url: string;
+  state: CaptureState;
+  health: CaptureHealth;
+  viewers: number;
+  lastFrameAt: number | null;
+  lastUsedAt: number | null;
+  restarts: number;
+  lastError: string | null;
+  lastErrorAt: number | null;
+  idleTimeoutSec: number;
+};
+
+export type CaptureFrame = {
+  buffer: Buffer;
+  updatedAt: number;
+};
+
+export type Capture = ReturnType<typeof createCapture>;
+
+export type BrowserPool = ReturnType<typeof createBrowserPool>;
+
+const MAX_RESTART_DELAY_MS = 60_000;
+const MAX_CAPTURE_FAILURES = 5;
+const STEP_TIMEOUT_MS = 5000;
+const GOTO_TIMEOUT_MS = 45_000;
+
+const DEFAULT_DISMISS_SELECTORS = [
+  '[role="dialog"]',
+  '[aria-modal="true"]',
+  '.modal',
+  '.popup',
+  '.overlay',
+  '[data-modal]',
+  '[data-overlay]',
+];
+
+export function resolveCaptureOptions(
+  channelId: string,
+  config: ChannelCaptureConfig
+): CaptureOptions {
+  return {
+    channelId,
+    url: config.url,
+    width: config.width ?? 1280,
+    height: config.height ?? 720,
+    intervalMs: config.interval_ms ?? 1500,
+    settleMs: config.settle_ms ?? 1500,
+    quality: config.quality ?? 80,
+    fit: config.fit ?? 'contain',
+    background: config.background ?? '#0a0f1a',
+    scripts: config.scripts ?? [],
+    css: config.css ?? [],
+    dismissSelectors: config.dismiss_selectors ?? DEFAULT_DISMISS_SELECTORS,
+    steps: config.steps ?? [],
+    idleTimeoutMs: (config.idle_timeout_sec ?? 120) * 1000,
+    staleIntervals: config.stale_intervals ?? 10,
+    // Off unless set: plenty of captured pages are legitimately static.
+    freezeTimeoutMs: (config.freeze_timeout_sec ?? 0) * 1000,
+  };
+}
+
+// One headless Chromium shared by every running capture, each in its own
+// context. Launched on the first acquire and closed when the last capture
+// releases it.
+export function createBrowserPool() {
+  let browser: Promise<Browser> | null = null;
+  let users = 0;
+
+  const acquire = async () => {
+    users += 1;
+    if (!browser) {
+      const launching = chromium.launch({ headless: true }).then((instance) => {
+        console.log('[capture] browser launched');
+        // Running captures see their pages close and restart on a fresh one.
+        instance.on('disconnected', () => {
+          if (browser !== launching) return;
+          console.warn('[capture] browser disconnected');
+          browser = null;
+        });
+        return instance;
+      });
+      browser = launching;
+    }
+    try {
+      return await browser;
+    } catch (err) {
+      users -= 1;
+      browser = null;
+      throw err;
+    }
+  };
+
+  const release = () => {
+    users = Math.max(0, users - 1);
+    if (users > 0 || !browser) return;
+    const closing = browser;
+    browser = null;
+    void closing
+      .then((instance) => instance.close())
+      .then(() => console.log('[capture] browser closed'))
+      .catch(() => undefined);
+  };
+
+  return {
+    acquire,
+    release,
+    isRunning: () => browser !== null,
+  };
+}
+
+async function dismissModal(page: Page, selectors: string[]) {
+  if (!selectors.length) return;
+  try {
+    const hadDialog = await page.evaluate((list) => {
+      let found = false;
+      for (const selector of list) {
+        const nodes = Array.from(document.querySelectorAll(selector));
+        if (nodes.length) {
+          found = true;
+          for (const node of nodes) {
+            if (node instanceof HTMLElement) {
+              node.style.display = 'none';
+              node.setAttribute('data-codex-hidden', 'true');
+            }
+          }
+        }
+      }
+      document.documentElement.style.overflow = 'auto';
+      document.body.style.overflow = 'auto';
+      return found;
+    }, selectors);
+
+    if (hadDialog) {
+      const candidates = await page.$$('button, [role="button"], a');
+      for (const handle of candidates) {
+        const meta = await handle.evaluate((el) => ({
+          text: (el.textContent ?? '').trim().toLowerCase(),
+          aria: (el.getAttribute('aria-label') ?? '').trim().toLowerCase(),
+        }));
+        if (
+          meta.text === 'x' ||
+          meta.text === '×' ||
+          meta.text.includes('close') ||
+          meta.text.includes('dismiss') ||
+          meta.aria.includes('close') ||
+          meta.aria.includes('dismiss')
+        ) {
+          await handle.click({ timeout: 500 }).catch(() => undefined);
+          break;
+        }
+      }
+    }
+  } catch {
+    // best-effort; ignore failures
+  }
+}
+
+async function runScripts(page: Page, scripts: string[], channelId: string) {
+  for (const script of scripts) {
+    await page.evaluate(script).catch((err) => {
+      console.warn(`[capture] ${channelId} script failed`, (err as Error).message);
+    });
+  }
+}
+
+const originOf = (url: string) => {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return null;
+  }
+};
+
+const describeStep = (step: ChannelCaptureStep) => {
+  const [action, value] =
+    Object.entries(step).find(
+      ([key, entry]) => entry !== undefined && !['text', 'every_sec', 'timeout_ms'].includes(key)
+    ) ?? [];
+  return `${action} ${JSON.stringify(value)}`;
+};
+
+async function runStep(page: Page, step: ChannelCaptureStep) {
+  const timeout = step.timeout_ms ?? STEP_TIMEOUT_MS;
+  if (step.goto) {
+    await page.goto(step.goto, {
+      waitUntil: 'domcontentloaded',
+      timeout: step.timeout_ms ?? GOTO_TIMEOUT_MS,
+    });
+  } else if (step.click) {
+    // Selector lists are handy for sites that vary; act on the first match.
+    await page.locator(step.click).first().click({ timeout });
+  } else if (step.type) {
+    await page.locator(step.type).first().fill(step.text ?? '', { timeout });
+  } else if (step.press) {
+    await page.keyboard.press(step.press);
+  } else if (step.wait_for) {
+    await page.waitForSelector(step.wait_for, { timeout });
+  } else if (typeof step.scroll === 'number') {
+    await page.evaluate((y) => window.scrollTo(0, y), step.scroll);
+  } else if (step.scroll) {
+    await page.locator(step.scroll).first().scrollIntoViewIfNeeded({ timeout });
+  } else if (step.evaluate) {
+    await page.evaluate(step.evaluate);
+  }
+}
+
+// Steps are best-effort: a selector that no longer matches is logged and the
+// rest still run, since the page is usually still worth showing.
+async function runSteps(page: Page, steps: ChannelCaptureStep[], tag: string) {
+  for (const step of steps) {
+    await runStep(page, step).catch((err) => {
+      console.warn(`${tag} step ${describeStep(step)} failed`, (err as Error).message);
+    });
+  }
+}
+
+// Captures run only while used: touch() starts one and restarts its idle
+// timer, watch() holds it open until released (e.g. for an MJPEG client), and
+// it stops after idleTimeoutMs with no use. While running, a watchdog restarts
+// the page when frames go stale or freeze, the page crashes or navigates off
+// the configured site, or screenshots keep failing; restarts back off from 2 s
+// to a minute.
+export function createCapture(options: CaptureOptions, pool: BrowserPool) {
+  const tag = `[capture] ${options.channelId}`;
+  const origins = new Set(
+    [options.url, ...options.steps.map((step) => step.goto ?? '')].map(originOf)
+  );
+  const setupSteps = options.steps.filter(
+    (step) => step.every_sec === undefined && step.reload_every === undefined
+  );
+  const repeatingSteps = options.steps.filter(
+    (step) => step.every_sec !== undefined && step.reload_every === undefined
+  );
+  const reloadEverySec = Math.min(
+    ...options.steps.map((step) => step.reload_every ?? Number.POSITIVE_INFINITY)
+  );
+  let context: BrowserContext | null = null;
+  let page: Page | null = null;
+  let frame: CaptureFrame | null = null;
+  let timer: NodeJS.Timeout | null = null;
+  let idleTimer: NodeJS.Timeout | null = null;
+  let watchdogTimer: NodeJS.Timeout | null = null;
+  let retryTimer: NodeJS.Timeout | null = null;
+  let stepTimers: NodeJS.Timeout[] = [];
+  let starting: Promise<void> | null = null;
+  let state: CaptureState = 'stopped';
+  let health: CaptureHealth = 'ok';
+  // Bumped by teardown() so a start that is still launching knows to back out.
+  let generation = 0;
+  let holdsBrowser = false;
+  let viewers = 0;
+  let lastUsedAt: number | null = null;
+  let runStartedAt = 0;
+  let frameHash = '';
+  let frameChangedAt = 0;
+  let captureFailures = 0;
+  let restartFailures = 0;
+  let restarts = 0;
+  let lastError: string | null = null;
+  let lastErrorAt: number | null = null;
+  const listeners = new Set<(frame: CaptureFrame) => void>();
+  const endListeners = new Set<() => void>();
+  // Set once the registry drops this capture; nothing may start it again.
+  let disposed = false;
+
+  const captureOnce = async () => {
+    if (!page) return;
+    await dismissModal(page, options.dismissSelectors);
+    await runScripts(page, options.scripts, options.channelId);
+    const buffer = await page.screenshot({ type: 'jpeg', quality: options.quality });
+    const next = { buffer, updatedAt: Date.now() };
+    const hash = crypto.createHash('sha1').update(buffer).digest('hex');
+    if (hash !== frameHash) {
+      frameHash = hash;
+      frameChangedAt = next.updatedAt;
+    }
+    captureFailures = 0;
+    frame = next;
+    listeners.forEach((listener) => listener(next));
+  };
+
+  // Called with every new frame as soon as it is captured.
+  const subscribe = (listener: (frame: CaptureFrame) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  // Called when the capture is disposed, so open streams can end and their
+  // clients reconnect to whatever replaced it.
+  const onEnd = (listener: () => void) => {
+    endListeners.add(listener);
+    return () => {
+      endListeners.delete(listener);
+    };
+  };
+
+  const inUse = () =>
+    viewers > 0 || (lastUsedAt !== null && Date.now() - lastUsedAt < options.idleTimeoutMs);
+
+  const teardown = async () => {
+    generation += 1;
+    starting = null;
+    state = 'stopped';
+    if (timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+    if (watchdogTimer) {
+      clearInterval(watchdogTimer);
+      watchdogTimer = null;
+    }
+    stepTimers.forEach((stepTimer) => clearInterval(stepTimer));
+    stepTimers = [];
+    const closing = context;
+    context = null;
+    page = null;
+    if (closing) await closing.close().catch(() => undefined);
+    if (holdsBrowser) {
+      holdsBrowser = false;
+      pool.release();
+    }
+  };
+
+  const restart = (problem: CaptureHealth, message: string) => {
+    if (retryTimer) return;
+    health = problem;
+    lastError = message;
+    lastErrorAt = Date.now();
+    console.warn(`${tag} ${message}`);
+    // Serve nothing rather than the broken page's last image until the
+    // restarted one produces a frame.
+    frame = null;
+    void teardown();
+    if (!inUse()) return;
+    const delay = Math.min(MAX_RESTART_DELAY_MS, 2000 * 2 ** restartFailures);
+    restartFailures += 1;
+    restarts += 1;
+    console.log(`${tag} restarting in ${Math.round(delay / 1000)}s`);
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      if (inUse()) void start();
+    }, delay);
+  };
+
+  const checkHealth = () => {
+    if (state !== 'running') return;
+    const now = Date.now();
+    const frameAge = frame ? now - frame.updatedAt : now - runStartedAt;
+    if (frameAge > options.staleIntervals * options.intervalMs) {
+      restart('stale', `no new frame for ${Math.round(frameAge / 1000)}s`);
+      return;
+    }
+    if (options.freezeTimeoutMs > 0 && now - frameChangedAt > options.freezeTimeoutMs) {
+      restart('frozen', `frame unchanged for ${Math.round((now - frameChangedAt) / 1000)}s`);
+      return;
+    }
+    // A run that stays healthy for a minute resets the backoff.
+    if (now - runStartedAt > MAX_RESTART_DELAY_MS) restartFailures = 0;
+  };
+
+  // Runs after every load: the initial goto and each scheduled reload.
+  const preparePage = async (target: Page) => {
+    for (const content of options.css) {
+      await target.addStyleTag({ content }).catch(() => undefined);
+    }
+    await runSteps(target, setupSteps, tag);
+  };
+
+  // A tick is skipped while the previous run of the same step (or reload)
+  // is still going, so slow pages never pile up work in Chromium.
+  const scheduleSteps = (target: Page, run: number) => {
+    repeatingSteps.forEach((step) => {
+      let busy = false;
+      const stepTimer = setInterval(() => {
+        if (run !== generation || busy) return;
+        busy = true;
+        void runSteps(target, [step], tag).finally(() => {
+          busy = false;
+        });
+      }, (step.every_sec ?? 0) * 1000);
+      stepTimers.push(stepTimer);
+    });
+    if (!Number.isFinite(reloadEverySec)) return;
+    let reloading = false;
+    const reloadTimer = setInterval(() => {
+      if (run !== generation || reloading) return;
+      reloading = true;
+      console.log(`${tag} scheduled reload`);
+      void target
+        .reload({ waitUntil: 'domcontentloaded', timeout: GOTO_TIMEOUT_MS })
+        .then(() => (run === generation ? preparePage(target) : undefined))
+        .catch((err) => {
+          if (run === generation) restart('failed', `reload failed: ${(err as Error).message}`);
+        })
+        .finally(() => {
+          reloading = false;
+        });
+    }, reloadEverySec * 1000);
+    stepTimers.push(reloadTimer);
+  };
+
+  const start = async () => {
+    if (starting) return starting;
+    const run = generation;
+    state = 'starting';
+    starting = (async () => {
+      const browser = await pool.acquire();
+      if (run !== generation) {
+        pool.release();
+        return;
+      }
+      holdsBrowser = true;
+      const nextContext = await browser.newContext({
+        viewport: { width: options.width, height: options.height },
+        deviceScaleFactor: 1,
+      });
+      if (run !== generation) {
+        await nextContext.close().catch(() => undefined);
+        return;
+      }
+      context = nextContext;
+      const nextPage = await context.newPage();
+      page = nextPage;
+      nextPage.on('dialog', (dialog) => {
+        void dialog.dismiss().catch(() => undefined);
+      });
+      nextPage.on('crash', () => {
+        if (run === generation) restart('crashed', 'page crashed');
+      });
+      nextPage.on('close', () => {
+        if (run === generation) restart('crashed', 'page closed unexpectedly');
+      });
+      nextPage.on('framenavigated', (navigated) => {
+        if (run !== generation || state !== 'running') return;
+        if (navigated !== nextPage.mainFrame()) return;
+        const url = navigated.url();
+        if (origins.has(originOf(url))) return;
+        restart('navigated', `navigated away to ${url}`);
+      });
+      await nextPage.goto(options.url, { waitUntil: 'domcontentloaded', timeout: GOTO_TIMEOUT_MS });
+      await preparePage(nextPage);
+      if (run !== generation) return;
+      await nextPage.waitForTimeout(options.settleMs);
+      if (run !== generation) return;
+      runStartedAt = Date.now();
+      frameChangedAt = runStartedAt;
+      await captureOnce();
+      if (run !== generation) return;
+      timer = setInterval(() => {
+        void captureOnce().catch((err) => {
+          if (run !== generation) return;
+          captureFailures += 1;
+          console.error(`${tag} capture failed`, (err as Error).message);
+          if (captureFailures >= MAX_CAPTURE_FAILURES) {
+            restart('failed', `${captureFailures} captures failed: ${(err as Error).message}`);
+          }
+        });
+      }, options.intervalMs);
+      watchdogTimer = setInterval(checkHealth, Math.max(1000, options.intervalMs));
+      scheduleSteps(nextPage, run);
+      state = 'running';
+      health = 'ok';
+      console.log(`${tag} started (${options.url})`);
+    })().catch((err) => {
+      if (run !== generation) return;
+      restart('failed', `failed to start: ${(err as Error).message}`);
+    });
+    return starting;
+  };
+
+  const stop = async () => {
+    if (idleTimer) {
+      clearTimeout(idleTimer);
+      idleTimer = null;
+    }
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+      retryTimer = null;
+    }
+    restartFailures = 0;
+    health = 'ok';
+    frame = null;
+    await teardown();
+  };
+
+  const scheduleIdleStop = () => {
+    if (idleTimer) clearTimeout(idleTimer);
+    idleTimer = setTimeout(() => {
+      idleTimer = null;
+      if (viewers > 0 || (state === 'stopped' && !retryTimer)) return;
+      console.log(`${tag} idle, stopping`);
+      void stop();
+    }, options.idleTimeoutMs);
+  };
+
+  const touch = () => {
+    if (disposed) return;
+    lastUsedAt = Date.now();
+    if (state === 'stopped' && !retryTimer) void start();
+    scheduleIdleStop();
+  };
+
+  const watch = () => {
+    if (disposed) return () => undefined;
+    viewers += 1;
+    touch();
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      viewers -= 1;
+      touch();
+    };
+  };
+
+  const dispose = async () => {
+    disposed = true;
+    const ending = Array.from(endListeners);
+    endListeners.clear();
+    listeners.clear();
+    ending.forEach((listener) => listener());
+    await stop();
+  };
+
+  const status = (): CaptureStatus => ({
+    channelId: options.channelId,
+    url: options.url,
+    state,
+    health,
+    viewers,
+    lastFrameAt: frame?.updatedAt ?? null,
+    lastUsedAt,
+    restarts,
+    lastError,
+    lastErrorAt,
+    idleTimeoutSec: options.idleTimeoutMs / 1000,
+  });
+
+  return {
+    options,
+    start,
+    stop,
+    dispose,
+    touch,
+    watch,
+    status,
+    getFrame: () => frame,
+    subscribe,
+    onEnd,
+  };
+}
+
+// One capture per channel with a [capture] table. Captures whose options are
+// unchanged survive a config reload; edited or removed ones are disposed,
+// which ends their open streams, and edited ones start again on their next use.
+export function createCaptureRegistry() {
+  const pool = createBrowserPool();
+  const captures = new Map<string, { key: string; capture: Capture }>();
+
+  const sync = (channels: ChannelManifest[]) => {
+    const next = new Map<string, CaptureOptions>();
+    channels.forEach((channel) => {
+      if (channel.capture) {
+        next.set(channel.id, resolveCaptureOptions(channel.id, channel.capture));
+      }
+    });
+    captures.forEach((entry, channelId) => {
+      const options = next.get(channelId);
+      if (options && JSON.stringify(options) === entry.key) return;
+      captures.delete(channelId);
+      void entry.capture.dispose();
+    });
+    next.forEach((options, channelId) => {
+      if (captures.has(channelId)) return;
+      const capture = createCapture(options, pool);
+      captures.set(channelId, { key: JSON.stringify(options), capture });
+    });
+  };
+
+  const stopAll = async () => {
+    const entries = Array.from(captures.values());
+    captures.clear();
+    await Promise.all(entries.map((entry) => entry.capture.dispose()));
+  };
+
+  return {
+    sync,
+    get: (channelId: string) => captures.get(channelId)?.capture ?? null,
+    list: () => Array.from(captures.values()).map((entry) => entry.capture.status()),
+    isBrowserRunning: pool.isRunning,
+    stopAll,
+  };
+}
@@ -0,0 +1,24 @@
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { formatDiagnostic, validateConfig } from './config-validator.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const repoRoot = path.resolve(__dirname, '../../..');
+const configPath = path.resolve(
+  process.argv[2] ?? process.env.CHIBA_CONFIG ?? path.resolve(repoRoot, 'config/chiba.toml')
+);
+
+const result = await validateConfig(configPath);
+const baseDir = process.cwd();
+for (const diagnostic of result.diagnostics) {
+  const line = formatDiagnostic(diagnostic, baseDir);
+  if (diagnostic.severity === 'error') {
+    console.error(line);
+  } else {
+    console.warn(line);
+  }
+}
+console.log(
+  `[check-config] ${path.relative(baseDir, configPath) || configPath}: ${result.errors} error(s), ${result.warnings} warning(s)`
+);
+process.exitCode = result.errors > 0 ? 1 : 0;
@@ -0,0 +1,857 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import toml from "@iarna/toml";
+
+export type ConfigDiagnosticSeverity = "error" | "warning";
+
+export type ConfigDiagnostic = {
+  severity: ConfigDiagnosticSeverity;
+  file: string;
+  line?: number;
+  column?: number;
+  message: string;
+};
+
+export type ConfigDiagnostics = {
+  checkedAt: number;
+  configPath: string;
+  errors: number;
+  warnings: number;
+  diagnostics: ConfigDiagnostic[];
+};
+
+type TomlTable = Record<string, unknown>;
+
+type KeyLocation = {
+  table: string;
+  key: string;
+  line: number;
+};
+
+const CONFIG_KEYS: Record<string, string[]> = {
+  server: ["host", "port", "remote_url"],
+  library: ["roots"],
+  index: ["scan_interval_sec", "full_scan_on_start"],
+  auth: ["pairing", "admin_token", "screen_token"],
+  channels: [
+    "manifest_dir",
+    "slot_minutes",
+    "slot_count",
+    "start_time",
+    "horizon_days",
+    "epoch",
+  ],
+};
+
+const MANIFEST_KEYS = [
+  "id",
+  "number",
+  "name",
+  "call_sign",
+  "accent",
+  "description",
+  "audio_source",
+  "audio_volume",
+  "audio_offset_min_sec",
+  "audio_offset_max_sec",
+  "embed",
+  "capture",
+  "filler",
+  "source_dir",
+  "glob",
+  "order",
+  "seed",
+  "program_tag",
+  "program",
+  "programs",
+  "block",
+  "blocks",
+];
+
+const PROGRAM_KEYS = [
+  "title",
+  "subtitle",
+  "tag",
+  "duration_slots",
+  "duration",
+  "media_duration_sec",
+  "source",
+];
+
+const EMBED_KEYS = [
+  "mode",
+  "url",
+  "allow",
+  "sandbox",
+  "autoplay_messages",
+  "autoplay_delay_ms",
+  "autoplay_retry_ms",
+  "autoplay_retries",
+  "dismiss_selectors",
+  "mask",
+  "overlay",
+];
+
+const EMBED_NUMBER_KEYS = [
+  "autoplay_delay_ms",
+  "autoplay_retry_ms",
+  "autoplay_retries",
+];
+
+const EMBED_MASK_KEYS = ["top", "right", "bottom", "left", "width", "height"];
+
+const EMBED_OVERLAY_KEYS = [
+  "title",
+  "subtitle",
+  "hint",
+  "qr",
+  "button",
+  "show_delay_ms",
+  "hide_on_message",
+  "mode",
+];
+
+const CAPTURE_KEYS = [
+  "url",
+  "width",
+  "height",
+  "interval_ms",
+  "settle_ms",
+  "quality",
+  "fit",
+  "background",
+  "scripts",
+  "css",
+  "dismiss_selectors",
+  "idle_timeout_sec",
+  "stale_intervals",
+  "freeze_timeout_sec",
+  "step",
+  "steps",
+];
+
+const CAPTURE_NUMBER_KEYS = [
+  "width",
+  "height",
+  "interval_ms",
+  "settle_ms",
+  "quality",
+  "idle_timeout_sec",
+  "stale_intervals",
+  "freeze_timeout_sec",
+];
+
+const CAPTURE_LIST_KEYS = ["scripts", "css", "dismiss_selectors"];
+
+const CAPTURE_STEP_ACTIONS = [
+  "goto",
+  "click",
+  "type",
+  "press",
+  "wait_for",
+  "scroll",
+  "evaluate",
+  "reload_every",
+];
+
+const CAPTURE_STEP_KEYS = [...CAPTURE_STEP_ACTIONS, "text", "every_sec", "timeout_ms"];
+
+const BLOCK_KEYS = ["days", "start", "end", "programs"];
+
+const GROUP_KEYS = ["screens", "sync_tolerance_ms"];
+
+const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+const ACCENT_PATTERN = /^#(?:[0-9a-f]{3}|[0-9a-f]{4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+const TIME_PATTERN = /^(?:[01]?\d|2[0-3]):[0-5]\d$|^24:00$/;
+
+function isTable(value: unknown): value is TomlTable {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+function ensureArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function resolvePath(baseDir: string, target: string): string {
+  if (path.isAbsolute(target)) return target;
+  return path.resolve(baseDir, target);
+}
+
+async function pathExists(target: string): Promise<boolean> {
+  try {
+    await fs.stat(target);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function stripKey(raw: string): string {
+  return raw.trim().replace(/^["']|["']$/g, "");
+}
+
+// Records where every key and table header sits so diagnostics can point at a
+// line without a position-aware TOML parser. Array tables are numbered in order
+// of appearance ("program[2]"), dotted keys are folded into their table path.
+function indexKeyLines(raw: string): KeyLocation[] {
+  const locations: KeyLocation[] = [];
+  const arrayCounts = new Map<string, number>();
+  let table = "";
+  raw.split(/\r?\n/).forEach((text, index) => {
+    const line = index + 1;
+    const arrayHeader = text.match(/^\s*\[\[\s*([^\]]+?)\s*\]\]/);
+    if (arrayHeader) {
+      const name = arrayHeader[1].split(".").map(stripKey).join(".");
+      const count = arrayCounts.get(name) ?? 0;
+      arrayCounts.set(name, count + 1);
+      table = `${name}[${count}]`;
+      locations.push({ table, key: "", line });
+      return;
+    }
+    const header = text.match(/^\s*\[\s*([^\]]+?)\s*\]/);
+    if (header) {
+      table = header[1].split(".").map(stripKey).join(".");
+      locations.push({ table, key: "", line });
+      return;
+    }
+    const assignment = text.match(/^\s*([A-Za-z0-9_\-."']+)\s*=/);
+    if (!assignment) return;
+    const parts = assignment[1].split(".").map(stripKey);
+    const key = parts.pop() ?? "";
+    const scope = [table, ...parts].filter(Boolean).join(".");
+    locations.push({ table: scope, key, line });
+  });
+  return locations;
+}
+
+function createLocator(raw: string) {
+  const locations = indexKeyLines(raw);
+  const find = (table: string, key: string) =>
+    locations.find((entry) => entry.table === table && entry.key === key)?.line;
+
+  // Walks from the most specific match outwards: the key inside its table, the
+  // inline table that holds it, then the nearest table header.
+  return (...segments: string[]): number | undefined => {
+    for (let i = segments.length - 1; i >= 0; i -= 1) {
+      const line = find(segments.slice(0, i).join("."), segments[i]);
+      if (line) return line;
+    }
+    for (let i = segments.length; i > 0; i -= 1) {
+      const line = find(segments.slice(0, i).join("."), "");
+      if (line) return line;
+    }
+    return undefined;
+  };
+}
+
+function parseToml(
+  raw: string,
+  file: string,
+  report: (diagnostic: ConfigDiagnostic) => void
+): TomlTable | null {
+  try {
+    return toml.parse(raw) as TomlTable;
+  } catch (err) {
+    const error = err as Error & { line?: number; col?: number };
+    report({
+      severity: "error",
+      file,
+      line: typeof error.line === "number" ? error.line + 1 : undefined,
+      column: typeof error.col === "number" ? error.col + 1 : undefined,
+      message: error.message.split("\n")[0],
+    });
+    return null;
+  }
+}
+
+export async function validateConfig(configPath: string): Promise<ConfigDiagnostics> {
+  const diagnostics: ConfigDiagnostic[] = [];
+  const report = (diagnostic: ConfigDiagnostic) => {
+    diagnostics.push(diagnostic);
+  };
+  const finish = (): ConfigDiagnostics => {
+    const errors = diagnostics.filter((item) => item.severity === "error").length;
+    return {
+      checkedAt: Date.now(),
+      configPath,
+      errors,
+      warnings: diagnostics.length - errors,
+      diagnostics,
+    };
+  };
+
+  let configRaw: string;
+  try {
+    configRaw = await fs.readFile(configPath, "utf-8");
+  } catch (err) {
+    report({ severity: "error", file: configPath, message: (err as Error).message });
+    return finish();
+  }
+
+  const config = parseToml(configRaw, configPath, report);
+  if (!config) return finish();
+  const locate = createLocator(configRaw);
+  const at = (severity: ConfigDiagnosticSeverity, message: string, ...segments: string[]) =>
+    report({ severity, file: configPath, line: locate(...segments), message });
+
+  for (const [section, value] of Object.entries(config)) {
+    if (section === "groups") continue;
+    const known = CONFIG_KEYS[section];
+    if (!known) {
+      at("warning", `unknown section [${section}]`, section);
+      continue;
+    }
+    if (!isTable(value)) {
+      at("error", `[${section}] must be a table`, section);
+      continue;
+    }
+    for (const key of Object.keys(value)) {
+      if (!known.includes(key)) {
+        at("warning", `unknown key "${key}" in [${section}]`, section, key);
+      }
+    }
+  }
+
+  const baseDir = path.dirname(configPath);
+  const server = isTable(config.server) ? config.server : {};
+  if (server.port !== undefined && (typeof server.port !== "number" || server.port <= 0)) {
+    at("error", "server.port must be a positive number", "server", "port");
+  }
+
+  const library = isTable(config.library) ? config.library : null;
+  if (!library) {
+    at("error", "missing [library] section");
+  } else {
+    const roots = ensureArray(library.roots as unknown);
+    if (roots.length === 0) {
+      at("warning", "library.roots is empty; no media will be served", "library", "roots");
+    }
+    for (const root of roots) {
+      if (!isString(root)) {
+        at("error", "library.roots entries must be strings", "library", "roots");
+      } else if (!(await pathExists(resolvePath(baseDir, root)))) {
+        at("warning", `library root "${root}" does not exist`, "library", "roots");
+      }
+    }
+  }
+
+  const index = isTable(config.index) ? config.index : {};
+  if (
+    index.scan_interval_sec !== undefined &&
+    (typeof index.scan_interval_sec !== "number" || index.scan_interval_sec < 0)
+  ) {
+    at("error", "index.scan_interval_sec must be a number of seconds", "index", "scan_interval_sec");
+  }
+  if (index.full_scan_on_start !== undefined && typeof index.full_scan_on_start !== "boolean") {
+    at("error", "index.full_scan_on_start must be true or false", "index", "full_scan_on_start");
+  }
+
+  if (config.groups !== undefined) {
+    validateGroups(config.groups, at);
+  }
+
+  const auth = isTable(config.auth) ? config.auth : {};
+  // Pairing only applies once an [auth] table exists.
+  const pairing = isTable(config.auth) && auth.pairing !== false;
+  if (auth.pairing !== undefined && typeof auth.pairing !== "boolean") {
+    at("error", "auth.pairing must be true or false", "auth", "pairing");
+  }
+  for (const key of ["admin_token", "screen_token"]) {
+    const token = auth[key];
+    if (token !== undefined && !isString(token)) {
+      at("error", `auth.${key} must be a string`, "auth", key);
+    } else if (isString(token) && token.trim().length < 12) {
+      at("warning", `auth.${key} is short; use at least 12 characters`, "auth", key);
+    }
+  }
+  if (pairing && auth.admin_token === undefined) {
+    at(
+      "warning",
+      "no auth.admin_token set; godmode, display tuning and takeovers are disabled while pairing is on",
+      "auth"
+    );
+  }
+  if (pairing && auth.screen_token === undefined) {
+    at(
+      "warning",
+      "no auth.screen_token set; screens cannot show pairing codes while pairing is on",
+      "auth"
+    );
+  }
+
+  const channels = isTable(config.channels) ? config.channels : null;
+  if (!channels) {
+    at("error", "missing [channels] section");
+    return finish();
+  }
+  for (const key of ["slot_minutes", "slot_count", "horizon_days"]) {
+    const value = channels[key];
+    if (value === undefined) continue;
+    if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) {
+      at("error", `channels.${key} must be a positive number`, "channels", key);
+    }
+  }
+  if (channels.start_time !== undefined && !(isString(channels.start_time) && TIME_PATTERN.test(channels.start_time))) {
+    at("error", 'channels.start_time must look like "HH:MM"', "channels", "start_time");
+  }
+  if (
+    channels.epoch !== undefined &&
+    !(channels.epoch instanceof Date) &&
+    !(isString(channels.epoch) && Number.isFinite(Date.parse(channels.epoch)))
+  ) {
+    at("error", "channels.epoch must be a date or ISO timestamp", "channels", "epoch");
+  }
+  if (!isString(channels.manifest_dir)) {
+    at("error", "channels.manifest_dir is required", "channels", "manifest_dir");
+    return finish();
+  }
+
+  const manifestDir = resolvePath(baseDir, channels.manifest_dir);
+  let channelFiles: string[];
+  try {
+    channelFiles = (await fs.readdir(manifestDir))
+      .filter((file) => file.endsWith(".toml"))
+      .sort()
+      .map((file) => path.join(manifestDir, file));
+  } catch {
+    at("error", `manifest_dir "${channels.manifest_dir}" does not exist`, "channels", "manifest_dir");
+    return finish();
+  }
+  if (channelFiles.length === 0) {
+    at("warning", `no channel manifests in "${channels.manifest_dir}"`, "channels", "manifest_dir");
+  }
+
+  const seenIds = new Map<string, { file: string; line?: number }>();
+  const seenNumbers = new Map<string, { file: string; line?: number }>();
+  for (const file of channelFiles) {
+    // Manifests can vanish or turn unreadable between readdir and here.
+    let raw: string;
+    try {
+      raw = await fs.readFile(file, "utf-8");
+    } catch (err) {
+      report({ severity: "error", file, message: (err as Error).message });
+      continue;
+    }
+    const manifest = parseToml(raw, file, report);
+    if (!manifest) continue;
+    await validateManifest(manifest, file, createLocator(raw), report, {
+      seenIds,
+      seenNumbers,
+    });
+  }
+
+  return finish();
+}
+
+async function validateManifest(
+  manifest: TomlTable,
+  file: string,
+  locate: (...segments: string[]) => number | undefined,
+  report: (diagnostic: ConfigDiagnostic) => void,
+  seen: {
+    seenIds: Map<string, { file: string; line?: number }>;
+    seenNumbers: Map<string, { file: string; line?: number }>;
+  }
+) {
+  const at = (severity: ConfigDiagnosticSeverity, message: string, ...segments: string[]) =>
+    report({ severity, file, line: locate(...segments), message });
+  const baseDir = path.dirname(file);
+  const checkSource = async (source: unknown, ...segments: string[]) => {
+    if (!isTable(source)) {
+      at("error", `${segments.join(".")} must be a table with type and value`, ...segments);
+      return;
+    }
+    if (source.type !== "path" && source.type !== "url") {
+      at("error", `${segments.join(".")}.type must be "path" or "url"`, ...segments);
+      return;
+    }
+    if (!isString(source.value)) {
+      at("error", `${segments.join(".")}.value is required`, ...segments);
+      return;
+    }
+    if (source.type === "path" && !(await pathExists(source.value))) {
+      at("error", `source file not found: ${source.value}`, ...segments);
+    }
+  };
+
+  for (const key of Object.keys(manifest)) {
+    if (!MANIFEST_KEYS.includes(key)) {
+      at("warning", `unknown key "${key}"`, key);
+    }
+  }
+
+  const id = isString(manifest.id) ? manifest.id : path.basename(file, path.extname(file));
+  const previousId = seen.seenIds.get(id);
+  if (previousId) {
+    at("error", `duplicate channel id "${id}" (also in ${path.basename(previousId.file)})`, "id");
+  } else {
+    seen.seenIds.set(id, { file, line: locate("id") });
+  }
+
+  if (manifest.number === undefined) {
+    at("warning", "channel has no number", "number");
+  } else if (typeof manifest.number !== "string" && typeof manifest.number !== "number") {
+    at("error", "number must be a string", "number");
+  } else {
+    const number = String(manifest.number);
+    const previous = seen.seenNumbers.get(number);
+    if (previous) {
+      at(
+        "error",
+        `duplicate channel number "${number}" (also used in ${path.basename(previous.file)}${previous.line ? `:${previous.line}` : ""})`,
+        "number"
+      );
+    } else {
+      seen.seenNumbers.set(number, { file, line: locate("number") });
+    }
+  }
+
+  if (!isString(manifest.name)) {
+    at("warning", "channel has no name", "name");
+  }
+  if (manifest.accent !== undefined && !(isString(manifest.accent) && ACCENT_PATTERN.test(manifest.accent))) {
+    at("error", `accent "${String(manifest.accent)}" is not a hex color like "#8fd7ff"`, "accent");
+  }
+  for (const key of ["audio_volume", "audio_offset_min_sec", "audio_offset_max_sec"]) {
+    if (manifest[key] !== undefined && typeof manifest[key] !== "number") {
+      at("error", `${key} must be a number`, key);
+    }
+  }
+  if (manifest.audio_source !== undefined) {
+    await checkSource(manifest.audio_source, "audio_source");
+  }
+  if (
+    manifest.order !== undefined &&
+    manifest.order !== "alpha" &&
+    manifest.order !== "mtime" &&
+    manifest.order !== "shuffle"
+  ) {
+    at("error", 'order must be "alpha", "mtime" or "shuffle"', "order");
+  }
+  if (manifest.source_dir !== undefined) {
+    if (!isString(manifest.source_dir)) {
+      at("error", "source_dir must be a path", "source_dir");
+    } else if (!(await pathExists(resolvePath(baseDir, manifest.source_dir)))) {
+      at("error", `source_dir "${manifest.source_dir}" does not exist`, "source_dir");
+    }
+  }
+
+  const programKey = manifest.programs !== undefined ? "programs" : "program";
+  const programs = ensureArray(manifest[programKey] as unknown);
+  if (
+    programs.length === 0 &&
+    manifest.source_dir === undefined &&
+    manifest.embed === undefined &&
+    manifest.capture === undefined
+  ) {
+    at("warning", "channel has no programs");
+  }
+  const titles = new Set<string>();
+  for (const [index, program] of programs.entries()) {
+    const segment = `${programKey}[${index}]`;
+    if (!isTable(program)) {
+      at("error", `${segment} must be a table`, segment);
+      continue;
+    }
+    if (isString(program.title)) titles.add(program.title);
+    await validateProgram(program, segment, at, checkSource);
+  }
+  if (manifest.filler !== undefined) {
+    if (isTable(manifest.filler)) {
+      await validateProgram(manifest.filler, "filler", at, checkSource);
+    } else {
+      at("error", "filler must be a table", "filler");
+    }
+  }
+
+  if (manifest.embed !== undefined) {
+    validateEmbed(manifest.embed, at);
+  }
+  if (manifest.capture !== undefined) {
+    validateCapture(manifest.capture, at);
+  }
+
+  const blockKey = manifest.blocks !== undefined ? "blocks" : "block";
+  for (const [index, block] of ensureArray(manifest[blockKey] as unknown).entries()) {
+    const segment = `${blockKey}[${index}]`;
+    if (!isTable(block)) {
+      at("error", `${segment} must be a table`, segment);
+      continue;
+    }
+    for (const key of Object.keys(block)) {
+      if (!BLOCK_KEYS.includes(key)) {
+        at("warning", `unknown key "${key}" in ${segment}`, segment, key);
+      }
+    }
+    for (const key of ["start", "end"]) {
+      if (!(isString(block[key]) && TIME_PATTERN.test(block[key]))) {
+        at("error", `${segment}.${key} must look like "HH:MM"`, segment, key);
+      }
+    }
+    for (const day of ensureArray(block.days as unknown)) {
+      if (!isString(day) || !WEEKDAYS.includes(day.trim().toLowerCase().slice(0, 3))) {
+        at("error", `${segment}.days has unknown weekday "${String(day)}"`, segment, "days");
+      }
+    }
+    for (const entry of ensureArray(block.programs as unknown)) {
+      if (typeof entry === "string") {
+        if (!titles.has(entry)) {
+          at("error", `${segment} references unknown program "${entry}"`, segment, "programs");
+        }
+      } else if (isTable(entry)) {
+        await validateProgram(entry, `${segment}.programs`, at, checkSource);
+      } else {
+        at("error", `${segment}.programs entries must be titles or tables`, segment, "programs");
+      }
+    }
+  }
+}
+
+async function validateProgram(
+  program: TomlTable,
+  segment: string,
+  at: (severity: ConfigDiagnosticSeverity, message: string, ...segments: string[]) => void,
+  checkSource: (source: unknown, ...segments: string[]) => Promise<void>
+) {
+  const segments = segment.split(".");
+  for (const key of Object.keys(program)) {
+    if (!PROGRAM_KEYS.includes(key)) {
+      at("warning", `unknown key "${key}" in ${segment}`, ...segments, key);
+    }
+  }
+  if (!isString(program.title)) {
+    at("error", `${segment} is missing a title`, ...segments, "title");
+  }
+  if (
+    program.duration_slots !== undefined &&
+    !(typeof program.duration_slots === "number" && program.duration_slots > 0)
+  ) {
+    at("error", `${segment}.duration_slots must be a positive number`, ...segments, "duration_slots");
+  }
+  if (
+    program.duration !== undefined &&
+    program.duration !== "auto" &&
+    !(typeof program.duration === "number" && program.duration > 0)
+  ) {
+    at("error", `${segment}.duration must be "auto" or a number of seconds`, ...segments, "duration");
+  }
+  if (program.source !== undefined) {
+    await checkSource(program.source, ...segments, "source");
+  }
+}
+
+function validateEmbed(
+  embed: unknown,
+  at: (severity: ConfigDiagnosticSeverity, message: string, ...segments: string[]) => void
+) {
+  if (!isTable(embed)) {
+    at("error", "embed must be a table", "embed");
+    return;
+  }
+  for (const key of Object.keys(embed)) {
+    if (!EMBED_KEYS.includes(key)) {
+      at("error", `unknown embed key "${key}"`, "embed", key);
+    }
+  }
+  if (embed.mode !== undefined && embed.mode !== "iframe" && embed.mode !== "proxy") {
+    at("error", 'embed.mode must be "iframe" or "proxy"', "embed", "mode");
+  }
+  if (embed.mode === undefined && embed.url === undefined) {
+    at("warning", "embed has neither mode nor url and will be ignored", "embed");
+  }
+  for (const key of EMBED_NUMBER_KEYS) {
+    if (embed[key] !== undefined && typeof embed[key] !== "number") {
+      at("error", `embed.${key} must be a number`, "embed", key);
+    }
+  }
+  if (embed.mask !== undefined) {
+    if (!isTable(embed.mask)) {
+      at("error", "embed.mask must be a table", "embed", "mask");
+    } else {
+      for (const [key, value] of Object.entries(embed.mask)) {
+        if (!EMBED_MASK_KEYS.includes(key)) {
+          at("error", `unknown embed.mask key "${key}"`, "embed", "mask", key);
+        } else if (typeof value !== "number") {
+          at("error", `embed.mask.${key} must be a number`, "embed", "mask", key);
+        }
+      }
+    }
+  }
+  if (embed.overlay !== undefined) {
+    if (!isTable(embed.overlay)) {
+      at("error", "embed.overlay must be a table", "embed", "overlay");
+      return;
+    }
+    for (const key of Object.keys(embed.overlay)) {
+      if (!EMBED_OVERLAY_KEYS.includes(key)) {
+        at("error", `unknown embed.overlay key "${key}"`, "embed", "overlay", key);
+      }
+    }
+    const mode = embed.overlay.mode;
+    if (mode !== undefined && mode !== "center" && mode !== "corner") {
+      at("error", 'embed.overlay.mode must be "center" or "corner"', "embed", "overlay", "mode");
+    }
+  }
+}
+
+function validateCapture(
+  capture: unknown,
+  at: (severity: ConfigDiagnosticSeverity, message: string, ...segments: string[]) => void
+) {
+  if (!isTable(capture)) {
+    at("error", "capture must be a table", "capture");
+    return;
+  }
+  for (const key of Object.keys(capture)) {
+    if (!CAPTURE_KEYS.includes(key)) {
+      at("error", `unknown capture key "${key}"`, "capture", key);
+    }
+  }
+  if (!isString(capture.url)) {
+    at("error", "capture.url is required", "capture", "url");
+  } else if (!/^https?:\/\//.test(capture.url)) {
+    at("error", "capture.url must be an http(s) URL", "capture", "url");
+  }
+  for (const key of CAPTURE_NUMBER_KEYS) {
+    const value = capture[key];
+    if (value !== undefined && (typeof value !== "number" || value <= 0)) {
+      at("error", `capture.${key} must be a positive number`, "capture", key);
+    }
+  }
+  if (typeof capture.quality === "number" && capture.quality > 100) {
+    at("error", "capture.quality must be 100 or less", "capture", "quality");
+  }
+  if (capture.fit !== undefined && capture.fit !== "contain" && capture.fit !== "cover") {
+    at("error", 'capture.fit must be "contain" or "cover"', "capture", "fit");
+  }
+  const stepKey = capture.steps !== undefined ? "steps" : "step";
+  for (const [index, step] of ensureArray(capture[stepKey] as unknown).entries()) {
+    validateCaptureStep(step, `${stepKey}[${index}]`, at);
+  }
+  for (const key of CAPTURE_LIST_KEYS) {
+    const value = capture[key];
+    if (value !== undefined && !ensureArray(value as unknown).every(isString)) {
+      at("error", `capture.${key} must be a list of strings`, "capture", key);
+    }
+  }
+}
+
+function validateCaptureStep(
+  step: unknown,
+  name: string,
+  at: (severity: ConfigDiagnosticSeverity, message: string, ...segments: string[]) => void
+) {
+  const segment = `capture.${name}`;
+  if (!isTable(step)) {
+    at("error", `${segment} must be a table`, "capture", name);
+    return;
+  }
+  for (const key of Object.keys(step)) {
+    if (!CAPTURE_STEP_KEYS.includes(key)) {
+      at("error", `unknown ${segment} key "${key}"`, "capture", name, key);
+    }
+  }
+  const actions = CAPTURE_STEP_ACTIONS.filter((action) => step[action] !== undefined);
+  if (actions.length !== 1) {
+    at(
+      "error",
+      `${segment} needs exactly one of ${CAPTURE_STEP_ACTIONS.join(", ")}`,
+      "capture",
+      name
+    );
+    return;
+  }
+  const [action] = actions;
+  const value = step[action];
+  if (action === "reload_every") {
+    if (typeof value !== "number" || value <= 0) {
+      at(
+        "error",
+        `${segment}.reload_every must be a positive number of seconds`,
+        "capture",
+        name
+      );
+    }
+    if (step.every_sec !== undefined) {
+      at("warning", `${segment}.every_sec is ignored on reload_every`, "capture", name);
+    }
+  } else if (action === "scroll") {
+    if (!isString(value) && typeof value !== "number") {
+      at("error", `${segment}.scroll must be a selector or a pixel offset`, "capture", name);
+    }
+  } else if (!isString(value)) {
+    at("error", `${segment}.${action} must be a string`, "capture", name);
+  }
+  if (action === "type" && typeof step.text !== "string") {
+    at("error", `${segment} needs text to type`, "capture", name);
+  }
+  if (action !== "type" && step.text !== undefined) {
+    at("warning", `${segment}.text only applies to type`, "capture", name);
+  }
+  if (action === "goto" && isString(value) && !/^https?:\/\//.test(value)) {
+    at("error", `${segment}.goto must be an http(s) URL`, "capture", name);
+  }
+  for (const key of ["every_sec", "timeout_ms"]) {
+    if (step[key] !== undefined && (typeof step[key] !== "number" || step[key] <= 0)) {
+      at("error", `${segment}.${key} must be a positive number`, "capture", name);
+    }
+  }
+}
+
+function validateGroups(
+  groups: unknown,
+  at: (severity: ConfigDiagnosticSeverity, message: string, ...segments: string[]) => void
+) {
+  if (!isTable(groups)) {
+    at("error", "[groups] must be a table of named groups", "groups");
+    return;
+  }
+  const owners = new Map<string, string>();
+  for (const [name, group] of Object.entries(groups)) {
+    if (!isTable(group)) {
+      at("error", `groups.${name} must be a table with a screens list`, "groups", name);
+      continue;
+    }
+    for (const key of Object.keys(group)) {
+      if (!GROUP_KEYS.includes(key)) {
+        at("warning", `unknown key "${key}" in groups.${name}`, "groups", name, key);
+      }
+    }
+    const screens = ensureArray(group.screens as unknown);
+    if (screens.length === 0) {
+      at("warning", `groups.${name} has no screens`, "groups", name);
+    }
+    for (const screen of screens) {
+      if (!isString(screen)) {
+        at("error", `groups.${name}.screens entries must be screen ids`, "groups", name, "screens");
+        continue;
+      }
+      const owner = owners.get(screen);
+      if (owner && owner !== name) {
+        at("warning", `screen "${screen}" is in both groups.${owner} and groups.${name}`, "groups", name, "screens");
+      }
+      owners.set(screen, name);
+    }
+    if (
+      group.sync_tolerance_ms !== undefined &&
+      !(typeof group.sync_tolerance_ms === "number" && group.sync_tolerance_ms > 0)
+    ) {
+      at("error", `groups.${name}.sync_tolerance_ms must be a positive number`, "groups", name, "sync_tolerance_ms");
+    }
+  }
+}
+
+export function formatDiagnostic(diagnostic: ConfigDiagnostic, baseDir?: string): string {
+  const file = baseDir ? path.relative(baseDir, diagnostic.file) || diagnostic.file : diagnostic.file;
+  const position = diagnostic.line
+    ? `:${diagnostic.line}${diagnostic.column ? `:${diagnostic.column}` : ""}`
+    : "";
+  return `${file}${position} ${diagnostic.severity}: ${diagnostic.message}`;
+}
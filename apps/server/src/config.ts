@@ -1,6 +1,13 @@
 import fs from "node:fs/promises";
 import path from "node:path";
 import toml from "@iarna/toml";
+import { probeMediaDuration } from "./media-probe.js";
+import {
+  listFolderEntries,
+  titleFromPath,
+  type FolderOrder,
+} from "./folder-channel.js";
+import { resolveScheduleStart } from "./index-builder-config.js";
 
 export type ChannelProgramSource = {
   type: "path" | "url";
@@ -12,9 +19,18 @@ export type ChannelProgram = {
   subtitle?: string;
   tag?: string;
   duration_slots?: number;
+  duration?: number | "auto";
+  media_duration_sec?: number;
   source?: ChannelProgramSource;
 };
 
+export type ChannelBlock = {
+  days?: string[];
+  start: string;
+  end: string;
+  programs: ChannelProgram[];
+};
+
 export type ChannelManifest = {
   id: string;
   number: string;
@@ -27,6 +43,14 @@ export type ChannelManifest = {
   audio_offset_min_sec?: number;
   audio_offset_max_sec?: number;
   embed?: ChannelEmbedConfig;
+  capture?: ChannelCaptureConfig;
+  filler?: ChannelProgram;
+  source_dir?: string;
+  glob?: string;
+  order?: FolderOrder;
+  seed?: number | string;
+  program_tag?: string;
+  blocks?: ChannelBlock[];
   programs: ChannelProgram[];
 };
 
@@ -64,6 +88,55 @@ export type ChannelEmbedConfig = {
   overlay?: ChannelEmbedOverlay;
 };
 
+// A site screenshotted by a headless browser and served at
+// /capture/<channel id>.jpg, with a viewer page at /capture/<channel id>.
+// The browser only runs while the capture is used, plus idle_timeout_sec.
+export type ChannelCaptureConfig = {
+  url: string;
+  width?: number;
+  height?: number;
+  interval_ms?: number;
+  settle_ms?: number;
+  quality?: number;
+  fit?: "contain" | "cover";
+  background?: string;
+  scripts?: string[];
+  css?: string[];
+  dismiss_selectors?: string[];
+  idle_timeout_sec?: number;
+  stale_intervals?: number;
+  freeze_timeout_sec?: number;
+  steps?: ChannelCaptureStep[];
+};
+
+// One page interaction, named by its single action key. Steps run in order
+// after the page loads (and again after a reload); a step with every_sec
+// instead repeats on that schedule.
+export type ChannelCaptureStep = {
+  goto?: string;
+  click?: string;
+  type?: string;
+  text?: string;
+  press?: string;
+  wait_for?: string;
+  scroll?: string | number;
+  evaluate?: string;
+  reload_every?: number;
+  every_sec?: number;
+  timeout_ms?: number;
+};
+
+const CAPTURE_STEP_ACTIONS = [
+  "goto",
+  "click",
+  "type",
+  "press",
+  "wait_for",
+  "scroll",
+  "evaluate",
+  "reload_every",
+] as const;
+
 export type ChibaConfig = {
   server?: {
     host?: string;
@@ -82,9 +155,22 @@ export type ChibaConfig = {
     slot_minutes: number;
     slot_count: number;
     start_time: string;
+    horizon_days?: number;
+    epoch?: string | Date;
+  };
+  groups?: Record<string, ScreenGroupConfig>;
+  auth?: {
+    pairing?: boolean;
+    admin_token?: string;
+    screen_token?: string;
   };
 };
 
+export type ScreenGroupConfig = {
+  screens?: string[];
+  sync_tolerance_ms?: number;
+};
+
 export type LoadedConfig = {
   config: ChibaConfig;
   configPath: string;
@@ -107,6 +193,14 @@ function resolvePath(baseDir: string, target: string): string {
   return path.resolve(baseDir, target);
 }
 
+function normalizeDuration(value: unknown): number | "auto" | undefined {
+  if (value === "auto") return "auto";
+  if (typeof value === "number" && Number.isFinite(value) && value > 0) {
+    return value;
+  }
+  return undefined;
+}
+
 function normalizePrograms(programs: ChannelProgram[] | undefined): ChannelProgram[] {
   return ensureArray(programs ?? []).map((program) => ({
     ...program,
@@ -114,6 +208,12 @@ function normalizePrograms(programs: ChannelProgram[] | undefined): ChannelProgr
       typeof program.duration_slots === "number" && program.duration_slots > 0
         ? program.duration_slots
         : 1,
+    duration: normalizeDuration(program.duration),
+    media_duration_sec:
+      typeof program.media_duration_sec === "number" &&
+      program.media_duration_sec > 0
+        ? program.media_duration_sec
+        : undefined,
   }));
 }
 
@@ -179,18 +279,182 @@ function normalizeEmbed(value: unknown): ChannelEmbedConfig | undefined {
   return embed;
 }
 
-async function loadChannelManifest(filePath: string): Promise<ChannelManifest> {
+// Zero or negative schedules would become back-to-back intervals; drop them.
+function normalizePositiveNumber(value: unknown): number | undefined {
+  const parsed = normalizeNumber(value);
+  return parsed !== undefined && parsed > 0 ? parsed : undefined;
+}
+
+function normalizeCaptureStep(value: unknown): ChannelCaptureStep | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+  const step: ChannelCaptureStep = {
+    goto: isString(raw.goto) ? raw.goto : undefined,
+    click: isString(raw.click) ? raw.click : undefined,
+    type: isString(raw.type) ? raw.type : undefined,
+    text: typeof raw.text === "string" ? raw.text : undefined,
+    press: isString(raw.press) ? raw.press : undefined,
+    wait_for: isString(raw.wait_for) ? raw.wait_for : undefined,
+    scroll: isString(raw.scroll) ? raw.scroll : normalizeNumber(raw.scroll),
+    evaluate: isString(raw.evaluate) ? raw.evaluate : undefined,
+    reload_every: normalizePositiveNumber(raw.reload_every),
+    every_sec: normalizePositiveNumber(raw.every_sec),
+    timeout_ms: normalizePositiveNumber(raw.timeout_ms),
+  };
+  return CAPTURE_STEP_ACTIONS.some((action) => step[action] !== undefined)
+    ? step
+    : null;
+}
+
+function normalizeCapture(value: unknown): ChannelCaptureConfig | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const raw = value as Record<string, unknown>;
+  if (!isString(raw.url)) return undefined;
+  return {
+    url: raw.url,
+    width: normalizeNumber(raw.width),
+    height: normalizeNumber(raw.height),
+    interval_ms: normalizeNumber(raw.interval_ms),
+    settle_ms: normalizeNumber(raw.settle_ms),
+    quality: normalizeNumber(raw.quality),
+    fit: raw.fit === "contain" || raw.fit === "cover" ? raw.fit : undefined,
+    background: isString(raw.background) ? raw.background : undefined,
+    scripts: ensureArray(raw.scripts).filter(isString),
+    css: ensureArray(raw.css).filter(isString),
+    dismiss_selectors:
+      raw.dismiss_selectors === undefined
+        ? undefined
+        : ensureArray(raw.dismiss_selectors).filter(isString),
+    idle_timeout_sec: normalizeNumber(raw.idle_timeout_sec),
+    stale_intervals: normalizeNumber(raw.stale_intervals),
+    freeze_timeout_sec: normalizeNumber(raw.freeze_timeout_sec),
+    steps: ensureArray(raw.steps ?? raw.step)
+      .map(normalizeCaptureStep)
+      .filter((step): step is ChannelCaptureStep => step !== null),
+  };
+}
+
+async function probeProgramDuration(program: ChannelProgram): Promise<ChannelProgram> {
+  if (program.media_duration_sec || program.source?.type !== "path") {
+    return program;
+  }
+  const durationSec = await probeMediaDuration(program.source.value);
+  return durationSec ? { ...program, media_duration_sec: durationSec } : program;
+}
+
+function normalizeOrder(value: unknown): FolderOrder | undefined {
+  return value === "alpha" || value === "mtime" || value === "shuffle"
+    ? value
+    : undefined;
+}
+
+async function expandSourceDir(
+  manifest: Partial<Pick<ChannelManifest, "glob" | "order" | "seed" | "program_tag">>,
+  sourceDir: string,
+  defaultSeed: string
+): Promise<ChannelProgram[]> {
+  const entries = await listFolderEntries({
+    dir: sourceDir,
+    glob: isString(manifest.glob) ? manifest.glob : undefined,
+    order: normalizeOrder(manifest.order),
+    seed:
+      typeof manifest.seed === "number" || isString(manifest.seed)
+        ? manifest.seed
+        : defaultSeed,
+  });
+  return entries.map((entry) => ({
+    title: titleFromPath(entry.path),
+    tag: manifest.program_tag,
+    duration: "auto",
+    source: { type: "path", value: entry.path },
+  }));
+}
+
+type RawChannelBlock = {
+  days?: string[] | string;
+  start?: string;
+  end?: string;
+  programs?: Array<string | ChannelProgram>;
+};
+
+async function normalizeBlocks(
+  blocks: RawChannelBlock[] | RawChannelBlock | undefined,
+  programs: ChannelProgram[],
+  filePath: string
+): Promise<ChannelBlock[]> {
+  const byTitle = new Map(programs.map((program) => [program.title, program]));
+  const normalized: ChannelBlock[] = [];
+  for (const block of ensureArray(blocks)) {
+    if (!isString(block.start) || !isString(block.end)) continue;
+    const blockPrograms: ChannelProgram[] = [];
+    for (const entry of ensureArray(block.programs)) {
+      if (typeof entry === "string") {
+        const match = byTitle.get(entry);
+        if (match) {
+          blockPrograms.push(match);
+        } else {
+          console.warn(`[config] ${path.basename(filePath)}: unknown block program "${entry}"`);
+        }
+      } else if (entry && typeof entry === "object" && isString(entry.title)) {
+        const [program] = normalizePrograms([entry]);
+        blockPrograms.push(await probeProgramDuration(program));
+      }
+    }
+    normalized.push({
+      days: ensureArray(block.days)
+        .filter(isString)
+        .map((day) => day.trim().toLowerCase().slice(0, 3)),
+      start: block.start,
+      end: block.end,
+      programs: blockPrograms,
+    });
+  }
+  return normalized;
+}
+
+// Without an epoch the shuffle changes daily, keyed on the day the schedule
+// window starts rather than the calendar date, so rebuilds between midnight
+// and start_time keep the lineup that is on air.
+function getSeedKey(epoch: string | Date | undefined, startTime: string | undefined): string {
+  if (epoch instanceof Date) return epoch.toISOString();
+  if (isString(epoch)) return epoch;
+  const day = resolveScheduleStart(startTime, new Date());
+  return `${day.getFullYear()}-${day.getMonth() + 1}-${day.getDate()}`;
+}
+
+async function loadChannelManifest(
+  filePath: string,
+  epoch?: string | Date,
+  startTime?: string
+): Promise<ChannelManifest> {
   const raw = await fs.readFile(filePath, "utf-8");
-  const parsed = toml.parse(raw) as Partial<ChannelManifest> & {
+  const parsed = toml.parse(raw) as Omit<Partial<ChannelManifest>, "blocks"> & {
     program?: ChannelProgram[] | ChannelProgram;
+    block?: RawChannelBlock[] | RawChannelBlock;
+    blocks?: RawChannelBlock[];
   };
 
-  const programs = normalizePrograms(
-    (parsed.programs ?? parsed.program) as ChannelProgram[] | undefined
+  const sourceDir = isString(parsed.source_dir)
+    ? resolvePath(path.dirname(filePath), parsed.source_dir)
+    : undefined;
+  const id = parsed.id ?? path.basename(filePath, path.extname(filePath));
+  const folderPrograms = sourceDir
+    ? await expandSourceDir(parsed, sourceDir, `${id}:${getSeedKey(epoch, startTime)}`)
+    : [];
+  const programs = await Promise.all(
+    normalizePrograms([
+      ...ensureArray(
+        (parsed.programs ?? parsed.program) as ChannelProgram[] | undefined
+      ),
+      ...folderPrograms,
+    ]).map(probeProgramDuration)
   );
+  const [filler] = parsed.filler?.source
+    ? await Promise.all(normalizePrograms([parsed.filler]).map(probeProgramDuration))
+    : [];
 
   return {
-    id: parsed.id ?? path.basename(filePath, path.extname(filePath)),
+    id,
     number: parsed.number ?? "",
     name: parsed.name ?? parsed.id ?? "Channel",
     call_sign: parsed.call_sign ?? "",
@@ -201,6 +465,14 @@ async function loadChannelManifest(filePath: string): Promise<ChannelManifest> {
     audio_offset_min_sec: normalizeNumber(parsed.audio_offset_min_sec),
     audio_offset_max_sec: normalizeNumber(parsed.audio_offset_max_sec),
     embed: normalizeEmbed(parsed.embed),
+    capture: normalizeCapture(parsed.capture),
+    filler,
+    source_dir: sourceDir,
+    glob: isString(parsed.glob) ? parsed.glob : undefined,
+    order: normalizeOrder(parsed.order),
+    seed: parsed.seed,
+    program_tag: parsed.program_tag,
+    blocks: await normalizeBlocks(parsed.blocks ?? parsed.block, programs, filePath),
     programs,
   };
 }
@@ -227,7 +499,9 @@ export async function loadConfig(configPath: string): Promise<LoadedConfig> {
   }
 
   const channels = await Promise.all(
-    channelFiles.map((file) => loadChannelManifest(file))
+    channelFiles.map((file) =>
+      loadChannelManifest(file, parsed.channels.epoch, parsed.channels.start_time)
+    )
   );
 
   return {
@@ -0,0 +1,142 @@
+import fs from 'node:fs/promises';
+import type { ControlValue, RemoteControl, SensorKind } from '@chiba-cable/protocol';
+
+export type ControlSchema = {
+  appId: string;
+  controls: RemoteControl[];
+  // Phone sensors the app wants streamed as controls.
+  sensors: SensorKind[];
+  // Latest value per controlId, set by remotes and kept across restarts.
+  values: Record<string, ControlValue>;
+  updatedAt: number;
+};
+
+type ControlFile = {
+  schemas: ControlSchema[];
+};
+
+const SAVE_DELAY_MS = 1000;
+const TEXT_MAX_LENGTH = 120;
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// The stored value if it still fits the control, otherwise null. Buttons and
+// triggers are momentary and groups are headers, so none of them keep a value.
+export function coerceControlValue(control: RemoteControl, value: unknown): ControlValue | null {
+  switch (control.type) {
+    case 'range':
+      return typeof value === 'number' && Number.isFinite(value)
+        ? clamp(value, control.min, control.max)
+        : null;
+    case 'select':
+      return typeof value === 'string' && control.options.some((option) => option.value === value)
+        ? value
+        : null;
+    case 'toggle':
+      return typeof value === 'boolean' ? value : null;
+    case 'xy': {
+      const point = value as { x?: unknown; y?: unknown } | null;
+      if (typeof point?.x !== 'number' || typeof point.y !== 'number') return null;
+      if (!Number.isFinite(point.x) || !Number.isFinite(point.y)) return null;
+      const min = control.min ?? 0;
+      const max = control.max ?? 1;
+      return { x: clamp(point.x, min, max), y: clamp(point.y, min, max) };
+    }
+    case 'color':
+      return typeof value === 'string' && COLOR_PATTERN.test(value) ? value.toLowerCase() : null;
+    case 'text':
+      return typeof value === 'string' ? value.slice(0, control.maxLength ?? TEXT_MAX_LENGTH) : null;
+    default:
+      return null;
+  }
+}
+
+const withValues = (schema: ControlSchema): ControlSchema => ({
+  ...schema,
+  controls: schema.controls.map((control) =>
+    control.id in schema.values
+      ? ({ ...control, value: schema.values[control.id] } as RemoteControl)
+      : control
+  ),
+});
+
+export function createControlStore(filePath: string) {
+  let schemas = new Map<string, ControlSchema>();
+  let saveTimer: NodeJS.Timeout | null = null;
+
+  const save = async () => {
+    const payload: ControlFile = { schemas: Array.from(schemas.values()) };
+    await fs.writeFile(filePath, `${JSON.stringify(payload, null, 2)}\n`, 'utf-8');
+  };
+
+  // Sliders send a value per frame while dragged; batch those writes.
+  const scheduleSave = () => {
+    if (saveTimer) return;
+    saveTimer = setTimeout(() => {
+      saveTimer = null;
+      save().catch((err) => console.warn('[controls] failed to save', (err as Error).message));
+    }, SAVE_DELAY_MS);
+  };
+
+  const load = async () => {
+    try {
+      const raw = await fs.readFile(filePath, 'utf-8');
+      const parsed = JSON.parse(raw) as Partial<ControlFile>;
+      const list = Array.isArray(parsed.schemas) ? parsed.schemas : [];
+      schemas = new Map(
+        list
+          .filter((schema) => schema?.appId && Array.isArray(schema.controls))
+          .map((schema) => [
+            schema.appId,
+            { ...schema, sensors: schema.sensors ?? [], values: schema.values ?? {} },
+          ])
+      );
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn('[controls] failed to load', (err as Error).message);
+      }
+      schemas = new Map();
+    }
+  };
+
+  // Values survive a re-registration as long as the control still accepts them.
+  const register = (appId: string, controls: RemoteControl[], sensors: SensorKind[] = []) => {
+    const previous = schemas.get(appId)?.values ?? {};
+    const values: Record<string, ControlValue> = {};
+    controls.forEach((control) => {
+      if (!(control.id in previous)) return;
+      const value = coerceControlValue(control, previous[control.id]);
+      if (value !== null) values[control.id] = value;
+    });
+    const schema: ControlSchema = { appId, controls, sensors, values, updatedAt: Date.now() };
+    schemas.set(appId, schema);
+    scheduleSave();
+    return withValues(schema);
+  };
+
+  const setValue = (appId: string, controlId: string, value: unknown) => {
+    const schema = schemas.get(appId);
+    const control = schema?.controls.find((item) => item.id === controlId);
+    if (!schema || !control) return false;
+    const next = coerceControlValue(control, value);
+    if (next === null) return false;
+    schema.values[controlId] = next;
+    schema.updatedAt = Date.now();
+    scheduleSave();
+    return true;
+  };
+
+  const get = (appId: string) => {
+    const schema = schemas.get(appId);
+    return schema ? withValues(schema) : null;
+  };
+
+  return {
+    filePath,
+    load,
+    register,
+    setValue,
+    get,
+  };
+}
@@ -0,0 +1,146 @@
+import type { Dirent, Stats } from "node:fs";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { getLibraryMediaKind } from "./library-scanner.js";
+
+export type FolderOrder = "alpha" | "mtime" | "shuffle";
+
+export type FolderSourceOptions = {
+  dir: string;
+  glob?: string;
+  order?: FolderOrder;
+  seed?: number | string;
+};
+
+export type FolderEntry = {
+  path: string;
+  mtimeMs: number;
+};
+
+export function globToRegExp(glob: string): RegExp {
+  let pattern = "";
+  for (let i = 0; i < glob.length; i += 1) {
+    const char = glob[i];
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        if (glob[i + 2] === "/") {
+          pattern += "(?:.*/)?";
+          i += 2;
+        } else {
+          pattern += ".*";
+          i += 1;
+        }
+      } else {
+        pattern += "[^/]*";
+      }
+    } else if (char === "?") {
+      pattern += "[^/]";
+    } else if (char === "{") {
+      const close = glob.indexOf("}", i);
+      if (close === -1) {
+        pattern += "\\{";
+        continue;
+      }
+      const options = glob
+        .slice(i + 1, close)
+        .split(",")
+        .map((option) => option.replace(/[.+^$()|[\]\\]/g, "\\$&"));
+      pattern += `(?:${options.join("|")})`;
+      i = close;
+    } else {
+      pattern += char.replace(/[.+^$()|[\]\\{}]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${pattern}$`, "i");
+}
+
+function hashSeed(seed: number | string): number {
+  const text = String(seed);
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i += 1) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+function createRandom(seed: number | string | undefined): () => number {
+  if (seed === undefined) return Math.random;
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function shuffleWithSeed<T>(items: T[], seed?: number | string): T[] {
+  const random = createRandom(seed);
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+async function walk(root: string, relative: string, files: string[]) {
+  let dirents: Dirent[];
+  try {
+    dirents = await fs.readdir(path.join(root, relative), { withFileTypes: true });
+  } catch {
+    return;
+  }
+  for (const dirent of dirents) {
+    if (dirent.name.startsWith(".")) continue;
+    const next = relative ? `${relative}/${dirent.name}` : dirent.name;
+    if (dirent.isDirectory()) {
+      await walk(root, next, files);
+    } else if (dirent.isFile()) {
+      files.push(next);
+    }
+  }
+}
+
+export async function listFolderEntries(
+  options: FolderSourceOptions
+): Promise<FolderEntry[]> {
+  const matcher = options.glob ? globToRegExp(options.glob) : null;
+  const files: string[] = [];
+  await walk(options.dir, "", files);
+
+  const matched = files.filter((file) =>
+    matcher ? matcher.test(file) : getLibraryMediaKind(file) !== null
+  );
+  const entries: FolderEntry[] = [];
+  for (const file of matched) {
+    const fullPath = path.join(options.dir, file);
+    let stat: Stats;
+    try {
+      stat = await fs.stat(fullPath);
+    } catch {
+      continue;
+    }
+    entries.push({ path: fullPath, mtimeMs: stat.mtimeMs });
+  }
+
+  entries.sort((a, b) => a.path.localeCompare(b.path));
+  if (options.order === "mtime") {
+    entries.sort((a, b) => a.mtimeMs - b.mtimeMs);
+  } else if (options.order === "shuffle") {
+    return shuffleWithSeed(entries, options.seed);
+  }
+  return entries;
+}
+
+export function titleFromPath(filePath: string): string {
+  const base = path.basename(filePath, path.extname(filePath));
+  return base
+    .replace(/[_-]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase()
+    .replace(/\b\w/g, (char) => char.toUpperCase());
+}
@@ -1,6 +1,12 @@
 import crypto from "node:crypto";
 import path from "node:path";
-import type { ChannelManifest, LoadedConfig } from "./config.js";
+import type {
+  ChannelManifest,
+  ChannelProgram,
+  ChannelProgramSource,
+  LoadedConfig,
+} from "./config.js";
+import type { ScheduleOverride } from "./overrides.js";
 
 export type ProgramSlot = {
   title: string;
@@ -8,6 +14,11 @@ export type ProgramSlot = {
   tag?: string;
   url?: string;
   durationSec?: number;
+  mediaDurationSec?: number;
+  fillerUrl?: string;
+  overrideId?: string;
+  startAt: number;
+  endAt: number;
   start: number;
   span: number;
   end: number;
@@ -33,24 +44,51 @@ export type GuideIndex = {
   slotMinutes: number;
   slotCount: number;
   startTime: string;
+  horizonDays: number;
   timeSlots: string[];
+  slotTimes: string[];
   channels: ChannelIndex[];
 };
 
+const DEFAULT_HORIZON_DAYS = 1;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function getHalfHourStart(now: Date): Date {
+  const start = new Date(now);
+  start.setMinutes(now.getMinutes() < 30 ? 0 : 30, 0, 0);
+  return start;
+}
+
+// Anchors the grid at the most recent occurrence of `start_time`, so the
+// schedule lines up with the same wall-clock slots every day.
+export function resolveScheduleStart(startTime: string | undefined, now: Date): Date {
+  const minutes = parseTimeOfDay(startTime);
+  if (minutes === null) return getHalfHourStart(now);
+  const start = new Date(now);
+  start.setHours(0, minutes, 0, 0);
+  if (start.getTime() > now.getTime()) {
+    start.setDate(start.getDate() - 1);
+  }
+  return start;
+}
+
+function resolveEpoch(epoch: string | Date | undefined): number | null {
+  if (!epoch) return null;
+  const epochMs = epoch instanceof Date ? epoch.getTime() : Date.parse(epoch);
+  return Number.isFinite(epochMs) ? epochMs : null;
+}
+
+function formatStartTime(date: Date): string {
+  return `${String(date.getHours()).padStart(2, "0")}:${String(
+    date.getMinutes()
+  ).padStart(2, "0")}`;
+}
+
 function formatTimeSlots(
-  startTime: string,
+  baseDate: Date,
   slotMinutes: number,
   slotCount: number
 ): string[] {
-  const [hoursStr, minutesStr] = startTime.split(":");
-  const baseDate = new Date();
-  baseDate.setHours(
-    Number.parseInt(hoursStr, 10),
-    Number.parseInt(minutesStr, 10),
-    0,
-    0
-  );
-
   return Array.from({ length: slotCount }, (_, idx) => {
     const slot = new Date(baseDate.getTime() + idx * slotMinutes * 60 * 1000);
     return slot.toLocaleTimeString("en-US", {
@@ -60,15 +98,6 @@ function formatTimeSlots(
   });
 }
 
-function getHalfHourStart(): string {
-  const now = new Date();
-  const minutes = now.getMinutes();
-  const flooredMinutes = minutes < 30 ? 0 : 30;
-  return `${String(now.getHours()).padStart(2, "0")}:${String(
-    flooredMinutes
-  ).padStart(2, "0")}`;
-}
-
 function mediaUrlForPath(filePath: string): string {
   const ext = path.extname(filePath).toLowerCase();
   const base = path
@@ -82,75 +111,327 @@ function mediaUrlForPath(filePath: string): string {
   return `/media/${name}?path=${encodeURIComponent(filePath)}`;
 }
 
+function sourceUrl(source: ChannelProgramSource | undefined): string | undefined {
+  if (source?.type === "path") return mediaUrlForPath(source.value);
+  if (source?.type === "url") return source.value;
+  return undefined;
+}
+
+function resolveProgramDurationSec(program: ChannelProgram): number | undefined {
+  if (typeof program.duration === "number") return program.duration;
+  if (program.duration === "auto") return program.media_duration_sec;
+  return undefined;
+}
+
+type ScheduleSegment = {
+  start: number;
+  end: number;
+  origin: number;
+  programs: ChannelProgram[];
+};
+
+type ScheduleContext = {
+  slotCount: number;
+  slotMinutes: number;
+  scheduleStartMs: number;
+  dayStartMinutes: number;
+  epochMs: number | null;
+};
+
+const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+function parseTimeOfDay(value: string | undefined): number | null {
+  const [hoursStr, minutesStr] = (value ?? "").split(":");
+  const hours = Number.parseInt(hoursStr ?? "", 10);
+  const minutes = Number.parseInt(minutesStr ?? "", 10);
+  if (!Number.isFinite(hours) || !Number.isFinite(minutes)) return null;
+  return hours * 60 + minutes;
+}
+
+function atMinutes(day: Date, minutes: number): number {
+  const date = new Date(day);
+  date.setHours(0, minutes, 0, 0);
+  return date.getTime();
+}
+
+function toSlot(ms: number, context: ScheduleContext): number {
+  return Math.round(
+    (ms - context.scheduleStartMs) / (context.slotMinutes * 60 * 1000)
+  );
+}
+
+function programSpanSlots(program: ChannelProgram, slotMinutes: number): number {
+  const programDurationSec = resolveProgramDurationSec(program);
+  const requestedSpan = programDurationSec
+    ? Math.ceil(programDurationSec / (slotMinutes * 60))
+    : program.duration_slots ?? 1;
+  return Math.max(1, requestedSpan);
+}
+
+// Splits the grid into wall-clock segments: every block occurrence airs its
+// own programs, and the fallback rotation restarts at each block end and at
+// each daily `start_time`, so a given time always lays out the same way.
+// With an epoch the rotation instead runs continuously from that instant.
+function buildSegments(
+  channel: ChannelManifest,
+  context: ScheduleContext
+): ScheduleSegment[] {
+  const { slotCount, scheduleStartMs, dayStartMinutes } = context;
+  const firstDay = new Date(scheduleStartMs);
+  firstDay.setHours(0, 0, 0, 0);
+  firstDay.setDate(firstDay.getDate() - 1);
+  const dayCount =
+    Math.ceil((slotCount * context.slotMinutes) / (24 * 60)) + 3;
+
+  const occurrences: ScheduleSegment[] = [];
+  const boundaries: number[] = [];
+  for (let offset = 0; offset < dayCount; offset += 1) {
+    const day = new Date(firstDay);
+    day.setDate(firstDay.getDate() + offset);
+    boundaries.push(toSlot(atMinutes(day, dayStartMinutes), context));
+    for (const block of channel.blocks ?? []) {
+      const weekday = WEEKDAYS[day.getDay()];
+      if (block.days?.length && !block.days.includes(weekday)) continue;
+      const startMinutes = parseTimeOfDay(block.start);
+      const endMinutes = parseTimeOfDay(block.end);
+      if (startMinutes === null || endMinutes === null) continue;
+      const start = toSlot(atMinutes(day, startMinutes), context);
+      const end = toSlot(
+        atMinutes(day, endMinutes + (endMinutes <= startMinutes ? 24 * 60 : 0)),
+        context
+      );
+      if (start >= slotCount || end <= start) continue;
+      occurrences.push({ start, end, origin: start, programs: block.programs });
+    }
+  }
+  occurrences.sort((a, b) => a.start - b.start);
+
+  const segments: ScheduleSegment[] = [];
+  const cycleSlots = channel.programs.reduce(
+    (total, program) => total + programSpanSlots(program, context.slotMinutes),
+    0
+  );
+  const pushFallback = (from: number, to: number, origin: number) => {
+    if (context.epochMs !== null && cycleSlots > 0) {
+      const sinceEpoch =
+        from + toSlot(scheduleStartMs, context) - toSlot(context.epochMs, context);
+      const cycleOffset = ((sinceEpoch % cycleSlots) + cycleSlots) % cycleSlots;
+      segments.push({
+        start: from,
+        end: to,
+        origin: from - cycleOffset,
+        programs: channel.programs,
+      });
+      return;
+    }
+    const cuts = boundaries.filter((slot) => slot > from && slot < to);
+    let start = from;
+    let runOrigin = origin;
+    for (const cut of [...cuts, to]) {
+      segments.push({ start, end: cut, origin: runOrigin, programs: channel.programs });
+      start = cut;
+      runOrigin = cut;
+    }
+  };
+  let cursor = Math.min(
+    0,
+    occurrences[0]?.start ?? 0,
+    boundaries.filter((slot) => slot <= 0).pop() ?? 0
+  );
+  let origin = cursor;
+  for (const occurrence of occurrences) {
+    if (occurrence.end <= cursor) continue;
+    const start = Math.max(occurrence.start, cursor);
+    if (start > cursor) pushFallback(cursor, start, origin);
+    segments.push({ ...occurrence, start });
+    cursor = occurrence.end;
+    origin = cursor;
+  }
+  if (cursor < slotCount) pushFallback(cursor, slotCount, origin);
+  return segments;
+}
+
 function buildSchedule(
-  programs: ChannelManifest["programs"],
-  slotCount: number,
-  slotMinutes: number
+  channel: ChannelManifest,
+  context: ScheduleContext
 ): ProgramSlot[] {
+  const { slotCount, slotMinutes, scheduleStartMs } = context;
   const schedule: ProgramSlot[] = [];
-  let cursor = 0;
-  let programIndex = 0;
+  const slotMs = slotMinutes * 60 * 1000;
+  const fillerUrl = sourceUrl(channel.filler?.source);
+
+  for (const segment of buildSegments(channel, context)) {
+    const visibleStart = Math.max(0, segment.start);
+    const visibleEnd = Math.min(slotCount, segment.end);
+    if (visibleEnd <= visibleStart) continue;
+
+    if (!segment.programs.length) {
+      for (let cursor = visibleStart; cursor < visibleEnd; cursor += 1) {
+        schedule.push({
+          title: "Off Air",
+          subtitle: "Standby",
+          tag: "ID",
+          startAt: scheduleStartMs + cursor * slotMs,
+          endAt: scheduleStartMs + (cursor + 1) * slotMs,
+          start: cursor,
+          span: 1,
+          end: cursor,
+          durationSec: slotMinutes * 60,
+        });
+      }
+      continue;
+    }
+
+    let cursor = segment.origin;
+    let programIndex = 0;
+    while (cursor < visibleEnd) {
+      const program = segment.programs[programIndex % segment.programs.length];
+      const programDurationSec = resolveProgramDurationSec(program);
+      const airEnd = Math.min(
+        cursor + programSpanSlots(program, slotMinutes),
+        segment.end
+      );
+      const programStart = cursor;
+      cursor = airEnd;
+      programIndex += 1;
+      if (airEnd <= visibleStart) continue;
+
+      // Timing uses the program's own start so the seek offset does not
+      // depend on where this build's window (or segment) happened to begin;
+      // only the grid layout is clamped.
+      const layoutStart = Math.max(programStart, segment.start, visibleStart);
+      const end = Math.min(airEnd, visibleEnd);
+      const spanSec = (airEnd - programStart) * slotMinutes * 60;
+      const durationSec = programDurationSec
+        ? Math.min(programDurationSec, spanSec)
+        : spanSec;
 
-  if (!programs.length) {
-    while (cursor < slotCount) {
       schedule.push({
-        title: "Off Air",
-        subtitle: "Standby",
-        tag: "ID",
-        start: cursor,
-        span: 1,
-        end: cursor,
-        durationSec: slotMinutes * 60,
+        title: program.title,
+        subtitle: program.subtitle,
+        tag: program.tag,
+        url: sourceUrl(program.source),
+        durationSec,
+        mediaDurationSec: program.media_duration_sec,
+        fillerUrl: fillerUrl && durationSec < spanSec ? fillerUrl : undefined,
+        startAt: scheduleStartMs + programStart * slotMs,
+        endAt: scheduleStartMs + airEnd * slotMs,
+        start: layoutStart,
+        span: end - layoutStart,
+        end: end - 1,
       });
-      cursor += 1;
     }
-    return schedule;
   }
 
-  while (cursor < slotCount) {
-    const program = programs[programIndex % programs.length];
-    const span = Math.min(
-      Math.max(1, program.duration_slots ?? 1),
-      slotCount - cursor
+  return schedule;
+}
+
+function resolveOverrideProgram(
+  override: ScheduleOverride,
+  channel: ChannelManifest,
+  channels: ChannelManifest[]
+): ChannelProgram | undefined {
+  if (!override.program) return undefined;
+  const candidates = [channel, ...channels.filter((item) => item !== channel)];
+  for (const candidate of candidates) {
+    const match = candidate.programs.find(
+      (program) => program.title === override.program
     );
-    const durationSec = Math.max(1, span) * slotMinutes * 60;
-    const url =
-      program.source?.type === "path"
-        ? mediaUrlForPath(program.source.value)
-        : program.source?.type === "url"
-        ? program.source.value
-        : undefined;
-
-    schedule.push({
-      title: program.title,
-      subtitle: program.subtitle,
-      tag: program.tag,
+    if (match) return match;
+  }
+  return undefined;
+}
+
+// Splices one-off overrides over the generated schedule, trimming whatever
+// programs they overlap.
+function applyOverrides(
+  schedule: ProgramSlot[],
+  channel: ChannelManifest,
+  channels: ChannelManifest[],
+  overrides: ScheduleOverride[],
+  context: ScheduleContext
+): ProgramSlot[] {
+  const { slotCount, slotMinutes, scheduleStartMs } = context;
+  const slotMs = slotMinutes * 60 * 1000;
+  let result = schedule;
+  for (const override of overrides) {
+    if (override.channelId !== "*" && override.channelId !== channel.id) continue;
+    const startMs = Date.parse(override.start);
+    const endMs = Date.parse(override.end);
+    const start = Math.max(0, Math.floor((startMs - scheduleStartMs) / slotMs));
+    const end = Math.min(slotCount, Math.ceil((endMs - scheduleStartMs) / slotMs));
+    if (end <= start) continue;
+    const program = resolveOverrideProgram(override, channel, channels);
+    const url = override.url ?? sourceUrl(program?.source);
+    if (!url && !program) continue;
+
+    const next: ProgramSlot[] = [];
+    for (const slot of result) {
+      if (slot.end < start || slot.start >= end) {
+        next.push(slot);
+        continue;
+      }
+      if (slot.start < start) {
+        next.push({
+          ...slot,
+          endAt: Math.min(slot.endAt, startMs),
+          span: start - slot.start,
+          end: start - 1,
+        });
+      }
+      if (slot.end >= end) {
+        next.push({
+          ...slot,
+          start: end,
+          span: slot.end - end + 1,
+        });
+      }
+    }
+    next.push({
+      title: override.title ?? program?.title ?? "Special",
+      subtitle: override.subtitle ?? program?.subtitle,
+      tag: "SPECIAL",
       url,
-      durationSec,
-      start: cursor,
-      span,
-      end: cursor + span - 1,
+      durationSec: Math.round((endMs - startMs) / 1000),
+      mediaDurationSec: program?.media_duration_sec,
+      overrideId: override.id,
+      startAt: startMs,
+      endAt: endMs,
+      start,
+      span: end - start,
+      end: end - 1,
     });
-    cursor += span;
-    programIndex += 1;
+    result = next.sort((a, b) => a.start - b.start);
   }
-
-  return schedule;
+  return result;
 }
 
 function normalizeAccent(accent?: string): string {
   return accent ?? "#7ed7ff";
 }
 
-export function buildIndexFromConfig(loaded: LoadedConfig): GuideIndex {
+export function buildIndexFromConfig(
+  loaded: LoadedConfig,
+  overrides: ScheduleOverride[] = []
+): GuideIndex {
   const { config, channels } = loaded;
-  const slotMinutes = config.channels.slot_minutes;
+  const slotMinutes = Math.max(1, config.channels.slot_minutes);
+  const slotMs = slotMinutes * 60 * 1000;
+  const horizonDays =
+    typeof config.channels.horizon_days === "number" &&
+    config.channels.horizon_days > 0
+      ? config.channels.horizon_days
+      : DEFAULT_HORIZON_DAYS;
+  const now = new Date();
+  const scheduleStart = resolveScheduleStart(config.channels.start_time, now);
   const slotCount = Math.max(
     1,
-    Math.round((24 * 60) / Math.max(1, slotMinutes))
+    Math.ceil((now.getTime() - scheduleStart.getTime() + horizonDays * DAY_MS) / slotMs)
+  );
+  const timeSlots = formatTimeSlots(scheduleStart, slotMinutes, slotCount);
+  const slotTimes = Array.from({ length: slotCount }, (_, idx) =>
+    new Date(scheduleStart.getTime() + idx * slotMs).toISOString()
   );
-  const startTime = getHalfHourStart();
-  const timeSlots = formatTimeSlots(startTime, slotMinutes, slotCount);
 
   const sortedChannels = [...channels].sort((a, b) => {
     const aNum = Number.parseInt(a.number ?? "", 10);
@@ -161,13 +442,16 @@ export function buildIndexFromConfig(loaded: LoadedConfig): GuideIndex {
     return a.name.localeCompare(b.name);
   });
 
+  const scheduleContext: ScheduleContext = {
+    slotCount,
+    slotMinutes,
+    scheduleStartMs: scheduleStart.getTime(),
+    dayStartMinutes: parseTimeOfDay(config.channels.start_time) ?? 0,
+    epochMs: resolveEpoch(config.channels.epoch),
+  };
+
   const channelIndex: ChannelIndex[] = sortedChannels.map((channel) => ({
-    audioUrl:
-      channel.audio_source?.type === "path"
-        ? mediaUrlForPath(channel.audio_source.value)
-        : channel.audio_source?.type === "url"
-        ? channel.audio_source.value
-        : undefined,
+    audioUrl: sourceUrl(channel.audio_source),
     audioVolume: channel.audio_volume,
     audioOffsetMinSec: channel.audio_offset_min_sec,
     audioOffsetMaxSec: channel.audio_offset_max_sec,
@@ -178,15 +462,23 @@ export function buildIndexFromConfig(loaded: LoadedConfig): GuideIndex {
     description: channel.description,
     accent: normalizeAccent(channel.accent),
     previewUrl: undefined,
-    schedule: buildSchedule(channel.programs, slotCount, slotMinutes),
+    schedule: applyOverrides(
+      buildSchedule(channel, scheduleContext),
+      channel,
+      channels,
+      overrides,
+      scheduleContext
+    ),
   }));
 
   return {
     generatedAt: Date.now(),
     slotMinutes,
     slotCount,
-    startTime,
+    startTime: formatStartTime(scheduleStart),
+    horizonDays,
     timeSlots,
+    slotTimes,
     channels: channelIndex,
   };
 }
@@ -7,6 +7,7 @@ export type SourceProgram = {
   url?: string;
   durationSlots?: number;
   durationSec?: number;
+  mediaDurationSec?: number;
 };
 
 export type SourceChannel = {
@@ -37,6 +38,9 @@ export type ProgramSlot = {
   tag?: string;
   url?: string;
   durationSec?: number;
+  mediaDurationSec?: number;
+  startAt: number;
+  endAt: number;
   start: number;
   span: number;
   end: number;
@@ -62,15 +66,20 @@ export type GuideIndex = {
   slotMinutes: number;
   slotCount: number;
   startTime: string;
+  horizonDays?: number;
   timeSlots: string[];
+  slotTimes: string[];
   channels: ChannelIndex[];
 };
 
-function formatTimeSlots(startTime: string, slotMinutes: number, slotCount: number): string[] {
+function resolveScheduleStart(startTime: string): Date {
   const [hoursStr, minutesStr] = startTime.split(':');
   const baseDate = new Date();
   baseDate.setHours(Number.parseInt(hoursStr, 10), Number.parseInt(minutesStr, 10), 0, 0);
+  return baseDate;
+}
 
+function formatTimeSlots(baseDate: Date, slotMinutes: number, slotCount: number): string[] {
   return Array.from({ length: slotCount }, (_, idx) => {
     const slot = new Date(baseDate.getTime() + idx * slotMinutes * 60 * 1000);
     return slot.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
@@ -80,9 +89,11 @@ function formatTimeSlots(startTime: string, slotMinutes: number, slotCount: numb
 function buildSchedule(
   programs: SourceProgram[],
   slotCount: number,
-  slotMinutes: number
+  slotMinutes: number,
+  scheduleStartMs: number
 ): ProgramSlot[] {
   const schedule: ProgramSlot[] = [];
+  const slotMs = slotMinutes * 60 * 1000;
   let cursor = 0;
 
   for (const program of programs) {
@@ -97,6 +108,9 @@ function buildSchedule(
       tag: program.tag,
       url: program.url,
       durationSec,
+      mediaDurationSec: program.mediaDurationSec,
+      startAt: scheduleStartMs + cursor * slotMs,
+      endAt: scheduleStartMs + (cursor + span) * slotMs,
       start: cursor,
       span,
       end: cursor + span - 1,
@@ -109,6 +123,8 @@ function buildSchedule(
       title: 'Off Air',
       subtitle: 'Standby',
       tag: 'ID',
+      startAt: scheduleStartMs + cursor * slotMs,
+      endAt: scheduleStartMs + (cursor + 1) * slotMs,
       start: cursor,
       span: 1,
       end: cursor,
@@ -123,7 +139,11 @@ function buildSchedule(
 export async function buildIndexFromFile(filePath: string): Promise<GuideIndex> {
   const raw = await fs.readFile(filePath, 'utf-8');
   const config = JSON.parse(raw) as SourceConfig;
-  const timeSlots = formatTimeSlots(config.startTime, config.slotMinutes, config.slotCount);
+  const scheduleStart = resolveScheduleStart(config.startTime);
+  const timeSlots = formatTimeSlots(scheduleStart, config.slotMinutes, config.slotCount);
+  const slotTimes = Array.from({ length: config.slotCount }, (_, idx) =>
+    new Date(scheduleStart.getTime() + idx * config.slotMinutes * 60 * 1000).toISOString()
+  );
 
   const channels = config.channels.map((channel) => ({
     id: channel.id,
@@ -137,7 +157,12 @@ export async function buildIndexFromFile(filePath: string): Promise<GuideIndex>
     audioVolume: channel.audioVolume,
     audioOffsetMinSec: channel.audioOffsetMinSec,
     audioOffsetMaxSec: channel.audioOffsetMaxSec,
-    schedule: buildSchedule(channel.programs, config.slotCount, config.slotMinutes),
+    schedule: buildSchedule(
+      channel.programs,
+      config.slotCount,
+      config.slotMinutes,
+      scheduleStart.getTime()
+    ),
   }));
 
   return {
@@ -146,6 +171,7 @@ export async function buildIndexFromFile(filePath: string): Promise<GuideIndex>
     slotCount: config.slotCount,
     startTime: config.startTime,
     timeSlots,
+    slotTimes,
     channels,
   };
 }
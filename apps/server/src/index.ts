@@ -4,20 +4,53 @@ import fsp from 'node:fs/promises';
 import { fileURLToPath } from 'node:url';
 import http from 'node:http';
 import os from 'node:os';
+import crypto from 'node:crypto';
 import express from 'express';
 import { WebSocketServer, WebSocket } from 'ws';
 import mime from 'mime-types';
+import {
+  createErrorMessage,
+  createWelcomeMessage,
+  isSupportedProtocol,
+  parseClientMessage,
+  PROTOCOL_VERSION,
+  type ClientRole,
+  type MessageOf,
+  type ProtocolError,
+  type ProtocolMessage,
+} from '@chiba-cable/protocol';
 import { buildIndexFromFile, type GuideIndex } from './index-builder.js';
 import { buildIndexFromConfig } from './index-builder-config.js';
 import { loadConfig, type ChannelEmbedConfig, type LoadedConfig } from './config.js';
-import { createVillageCapture } from './village-capture.js';
-import { createWeatherstarCapture } from './weatherstar-capture.js';
+import { formatDiagnostic, validateConfig } from './config-validator.js';
+import { createCaptureRegistry, type CaptureOptions } from './capture.js';
+import { createControlStore } from './control-store.js';
+import { parseMjpegFps, streamMjpeg } from './mjpeg.js';
+import { createPairingStore } from './pairing.js';
+import {
+  encodeQr,
+  isQrColor,
+  renderQrPng,
+  renderQrSvg,
+  type QrErrorCorrection,
+  type QrMatrix,
+} from './qr.js';
+import { createScreenRegistry } from './screen-registry.js';
+import { createLibraryScanner, type LibraryMediaKind } from './library-scanner.js';
+import {
+  createOverrideStore,
+  OverrideError,
+  type ScheduleOverrideInput,
+} from './overrides.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 const PORT = Number(process.env.PORT ?? 8787);
 const app = express();
+// The Vite dev server proxies /api from localhost; trust its X-Forwarded-For
+// so per-client limits (pairing lockout) see the phone, not the proxy.
+app.set('trust proxy', 'loopback');
 const server = http.createServer(app);
 const wss = new WebSocketServer({ server });
 const WS_HEARTBEAT_MS = Number(process.env.WS_HEARTBEAT_MS ?? 25000);
@@ -31,49 +64,48 @@ const configPath = process.env.CHIBA_CONFIG ?? path.resolve(repoRoot, 'config/ch
 
 let guideIndex: GuideIndex | null = null;
 let rebuildTimer: NodeJS.Timeout | null = null;
-const villageCapture = createVillageCapture();
-const weatherstarCapture = createWeatherstarCapture();
+const overrideStore = createOverrideStore(
+  path.join(path.dirname(configPath), 'overrides.json')
+);
+const pairingStore = createPairingStore(
+  path.join(path.dirname(configPath), 'pairings.json')
+);
+const controlStore = createControlStore(
+  path.join(path.dirname(configPath), 'controls.json')
+);
+const captureRegistry = createCaptureRegistry();
 let loadedConfig: LoadedConfig | null = null;
 let mediaRoots: string[] = [];
 let configWatchers: Array<ReturnType<typeof fs.watch>> = [];
+let sourceDirWatchers: Array<ReturnType<typeof fs.watch>> = [];
 let configPollTimer: NodeJS.Timeout | null = null;
 let lastConfigFingerprint = '';
-type RemoteControl =
-  | {
-      id: string;
-      label: string;
-      type: 'range';
-      min: number;
-      max: number;
-      step?: number;
-      value?: number;
-    }
-  | {
-      id: string;
-      label: string;
-      type: 'select';
-      options: { value: string; label: string }[];
-      value?: string;
-    }
-  | {
-      id: string;
-      label: string;
-      type: 'toggle';
-      value?: boolean;
-    }
-  | {
-      id: string;
-      label: string;
-      type: 'button';
-    };
+type Takeover = {
+  url?: string;
+  title?: string;
+  message?: string;
+  until: number | null;
+  startedAt: number;
+};
 
-type ControlSchema = {
-  appId: string;
-  controls: RemoteControl[];
-  updatedAt: number;
+// Set from the `hello` message; clients that never say hello are treated like
+// apps and keep receiving every message.
+type WsClient = {
+  role: ClientRole;
+  screenId: string | null;
+  groups: string[];
+  admin: boolean;
+  pairedScreenId: string | null;
+  // Screens that sent the screen token; only they are shown pairing codes.
+  trustedScreen: boolean;
 };
 
-const controlSchemas = new Map<string, ControlSchema>();
+// The live socket that registered each appId's controls.
+const controlOwners = new Map<string, WebSocket>();
+const wsClients = new Map<WebSocket, WsClient>();
+const screenRegistry = createScreenRegistry();
+let activeTakeover: Takeover | null = null;
+let takeoverTimer: NodeJS.Timeout | null = null;
 const mediaStats = {
   startedAt: Date.now(),
   active: 0,
@@ -123,6 +155,19 @@ const getEmbedConfig = (id: string): ChannelEmbedConfig | null => {
   return channel?.embed ?? null;
 };
 
+// A screen tuning to a captured channel starts its browser before the
+// program page asks for frames. Channels can also borrow another channel's
+// capture through a /capture/<id> program URL.
+const warmCapture = (channelId: unknown, url: unknown) => {
+  const borrowed = typeof url === 'string' ? url.match(/\/capture\/([^/.?]+)/) : null;
+  [channelId, borrowed?.[1]].forEach((id) => {
+    if (typeof id === 'string' && id) captureRegistry.get(id)?.touch();
+  });
+};
+
+const getChannelName = (id: string) =>
+  loadedConfig?.channels.find((item) => item.id === id)?.name ?? id;
+
 const parseBooleanQuery = (value: unknown): boolean => {
   if (value === undefined || value === null) return false;
   const raw = Array.isArray(value) ? value[0] : value;
@@ -133,6 +178,10 @@ const parseBooleanQuery = (value: unknown): boolean => {
   return ["1", "true", "yes", "on"].includes(normalized);
 };
 
+// Served by /api/qr.svg so kiosks on an offline LAN still get a scannable code.
+const buildQrUrl = (data: string, size: number) =>
+  `/api/qr.svg?size=${size}&data=${encodeURIComponent(data)}`;
+
 const buildOverlayHtml = (embed: ChannelEmbedConfig | null) => {
   if (!embed?.overlay) return { html: '', script: '' };
   const overlay = embed.overlay;
@@ -145,9 +194,7 @@ const buildOverlayHtml = (embed: ChannelEmbedConfig | null) => {
   const hideOnMessage = overlay.hide_on_message !== false;
   const mode = overlay.mode === 'corner' ? 'corner' : 'center';
   const qrImg = qr
-    ? `<img class="embed-qr" src="https://api.qrserver.com/v1/create-qr-code/?size=200x200&margin=0&data=${encodeURIComponent(
-        qr
-      )}" alt="QR to broadcast" />`
+    ? `<img class="embed-qr" src="${buildQrUrl(qr, 200)}" alt="QR to broadcast" />`
     : '';
   const html = `
     <div id="embed-overlay" class="embed-overlay ${mode}">
@@ -535,14 +582,461 @@ const broadcast = (message: string) => {
   });
 };
 
+const DEFAULT_SYNC_TOLERANCE_MS = 100;
+
+// Groups come from the screen's own hello plus any [groups] entry in chiba.toml
+// that lists its screenId.
+const getClientGroups = (client: WsClient) => {
+  const groups = new Set(client.groups);
+  const configured = loadedConfig?.config.groups ?? {};
+  Object.entries(configured).forEach(([name, group]) => {
+    if (client.screenId && group?.screens?.includes(client.screenId)) {
+      groups.add(name);
+    }
+  });
+  return Array.from(groups).sort();
+};
+
+const getGroupMessage = (client: WsClient) => {
+  const groups = getClientGroups(client);
+  const configured = loadedConfig?.config.groups ?? {};
+  const tolerances = groups
+    .map((name) => configured[name]?.sync_tolerance_ms)
+    .filter((value): value is number => typeof value === 'number' && value > 0);
+  return JSON.stringify({
+    type: 'group',
+    groups,
+    syncToleranceMs: groups.length
+      ? tolerances.length
+        ? Math.min(...tolerances)
+        : DEFAULT_SYNC_TOLERANCE_MS
+      : null,
+  });
+};
+
+// Targets are "all", "screen:<id>" or "group:<name>"; a missing target means all.
+const matchesTarget = (client: WsClient, target: unknown) => {
+  if (typeof target !== 'string' || !target || target === 'all') return true;
+  if (target.startsWith('screen:')) return client.screenId === target.slice(7);
+  if (target.startsWith('group:')) return getClientGroups(client).includes(target.slice(6));
+  return false;
+};
+
+const routeMessage = (message: string, target: unknown) => {
+  wss.clients.forEach((client) => {
+    if (client.readyState !== client.OPEN) return;
+    const info = wsClients.get(client);
+    if (info?.role === 'screen' && !matchesTarget(info, target)) return;
+    client.send(message);
+  });
+};
+
+const getScreensMessage = () =>
+  JSON.stringify({
+    type: 'screens',
+    screens: screenRegistry
+      .list()
+      .filter((screen) => screen.online)
+      .map((screen) => ({ screenId: screen.screenId, groups: screen.groups })),
+  });
+
+// Remotes, apps and anything that has not said hello.
+const sendToControllers = (message: string) => {
+  wss.clients.forEach((client) => {
+    if (client.readyState !== client.OPEN) return;
+    if (wsClients.get(client)?.role === 'screen') return;
+    client.send(message);
+  });
+};
+
+const broadcastScreens = () => {
+  sendToControllers(getScreensMessage());
+};
+
+// Messages that bring a late-joining remote up to date with a screen, stamped
+// with `from` exactly as if the screen had just sent them.
+const getScreenStateMessages = (screenId: string) => {
+  const state = screenRegistry.getState(screenId);
+  if (!state?.online) return [];
+  const messages: string[] = [];
+  if (state.now) {
+    const { updatedAt: _updatedAt, ...now } = state.now;
+    messages.push(JSON.stringify({ type: 'now', ...now, from: screenId }));
+  }
+  messages.push(JSON.stringify({ type: 'app', appId: state.appId, from: screenId }));
+  if (state.volume !== null || state.muted !== null) {
+    messages.push(
+      JSON.stringify({
+        type: 'status',
+        view: state.view ?? undefined,
+        volume: state.volume ?? undefined,
+        muted: state.muted ?? undefined,
+        from: screenId,
+      })
+    );
+  }
+  return messages;
+};
+
+const replayScreenState = (socket: WebSocket, target: unknown) => {
+  wsClients.forEach((client) => {
+    if (client.role !== 'screen' || !client.screenId) return;
+    if (!matchesTarget(client, target)) return;
+    getScreenStateMessages(client.screenId).forEach((message) => socket.send(message));
+  });
+};
+
+const optionalString = (value: unknown) =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+// Screens report what they show through `now`, `app` and `status`; the registry
+// keeps the latest of each for the fleet view.
+const recordScreenMessage = (screenId: string, parsed: Record<string, unknown>) => {
+  if (parsed.type === 'now') {
+    screenRegistry.update(screenId, {
+      now: {
+        channelId: optionalString(parsed.channelId),
+        number: optionalString(parsed.number),
+        title: optionalString(parsed.title),
+        url: optionalString(parsed.url),
+        updatedAt: Date.now(),
+      },
+    });
+  } else if (parsed.type === 'app') {
+    screenRegistry.update(screenId, { appId: optionalString(parsed.appId) ?? null });
+  } else if (parsed.type === 'status') {
+    screenRegistry.update(screenId, {
+      view: optionalString(parsed.view) ?? null,
+      volume: typeof parsed.volume === 'number' ? parsed.volume : null,
+      muted: typeof parsed.muted === 'boolean' ? parsed.muted : null,
+    });
+  }
+};
+
+const refreshScreenGroups = () => {
+  wsClients.forEach((client, socket) => {
+    if (client.role !== 'screen' || !client.screenId) return;
+    screenRegistry.update(client.screenId, { groups: getClientGroups(client) });
+    if (socket.readyState === socket.OPEN) {
+      socket.send(getGroupMessage(client));
+    }
+  });
+  broadcastScreens();
+};
+
+// When a grouped screen changes channel its peers follow. Peers we just told to
+// tune are remembered so their own `now` report does not fan out again.
+const pendingGroupTunes = new WeakMap<WebSocket, string>();
+
+const followGroupTune = (socket: WebSocket, sender: WsClient, number: unknown) => {
+  if (typeof number !== 'string' || !number || !sender.screenId) return;
+  const expected = pendingGroupTunes.get(socket);
+  pendingGroupTunes.delete(socket);
+  if (expected === number) return;
+  const groups = getClientGroups(sender);
+  if (!groups.length) return;
+  const message = JSON.stringify({ type: 'tune', number, from: sender.screenId, sync: true });
+  wss.clients.forEach((client) => {
+    if (client === socket || client.readyState !== client.OPEN) return;
+    const info = wsClients.get(client);
+    if (info?.role !== 'screen' || !info.screenId || info.screenId === sender.screenId) return;
+    if (!getClientGroups(info).some((group) => groups.includes(group))) return;
+    if (screenRegistry.get(info.screenId)?.now?.number === number) return;
+    pendingGroupTunes.set(client, number);
+    client.send(message);
+  });
+};
+
+// Messages that drive a screen; with pairing on they need a paired remote.
+const CONTROL_MESSAGE_TYPES = new Set<ProtocolMessage['type']>([
+  'nav',
+  'channel',
+  'day',
+  'tune',
+  'dial',
+  'volume',
+  'mute',
+  'select',
+  'guide',
+  'info',
+  'control',
+]);
+
+// Messages that act on the whole network and need the admin token.
+const ADMIN_MESSAGE_TYPES = new Set<ProtocolMessage['type']>([
+  'godselect',
+  'display',
+  'takeover',
+  'reload',
+]);
+
+// Without an [auth] table the network stays open, as it was before pairing.
+const getAuthConfig = () => {
+  const auth = loadedConfig?.config.auth;
+  return {
+    pairing: auth ? auth.pairing ?? true : false,
+    adminToken: auth?.admin_token?.trim() || null,
+    screenToken: auth?.screen_token?.trim() || null,
+  };
+};
+
+const tokenMatches = (expected: string | null, token: string | undefined | null) => {
+  if (!expected || !token) return false;
+  const expectedBuffer = Buffer.from(expected);
+  const actual = Buffer.from(token);
+  return expectedBuffer.length === actual.length && crypto.timingSafeEqual(expectedBuffer, actual);
+};
+
+const isAdminToken = (token: string | undefined | null) =>
+  tokenMatches(getAuthConfig().adminToken, token);
+
+let lastAuthWarning = '';
+
+// Logged on each config load that changes it, so an upgrade that turns on
+// pairing without tokens is obvious from the console.
+const warnAuthConfig = () => {
+  const { pairing, adminToken, screenToken } = getAuthConfig();
+  const warnings = [
+    pairing && !adminToken
+      ? 'no auth.admin_token set; godmode, display tuning, takeovers and overrides are disabled'
+      : null,
+    pairing && !screenToken
+      ? 'no auth.screen_token set; screens cannot show pairing codes, so remotes cannot pair'
+      : null,
+  ].filter((warning): warning is string => Boolean(warning));
+  const summary = warnings.join('\n');
+  if (summary === lastAuthWarning) return;
+  lastAuthWarning = summary;
+  warnings.forEach((warning) => console.warn(`[auth] WARNING: ${warning}`));
+};
+
+// Without an admin token, admin actions are only open when pairing is off.
+const canAdmin = (client: WsClient | undefined) => {
+  const { adminToken, pairing } = getAuthConfig();
+  return adminToken ? Boolean(client?.admin) : !pairing;
+};
+
+const canControl = (client: WsClient | undefined) =>
+  !getAuthConfig().pairing || Boolean(client?.admin || client?.pairedScreenId);
+
+const authorizeMessage = (
+  socket: WebSocket,
+  client: WsClient | undefined,
+  message: ProtocolMessage
+): ProtocolError | null => {
+  const deny = (reason: string): ProtocolError => ({
+    code: 'unauthorized',
+    message: reason,
+    ref: message.type,
+  });
+  if (ADMIN_MESSAGE_TYPES.has(message.type) && !canAdmin(client)) {
+    return deny(`${message.type} needs the admin token`);
+  }
+  // Screens echo their own channel changes as committed `dial`s; those are
+  // reports, kept away from other screens when relayed.
+  if (
+    CONTROL_MESSAGE_TYPES.has(message.type) &&
+    client?.role !== 'screen' &&
+    !canControl(client)
+  ) {
+    return deny('pair this remote with a screen first');
+  }
+  if (message.type === 'controls') {
+    if (client?.role === 'remote' && !client.admin) {
+      return deny('remotes cannot register controls');
+    }
+    const owner = controlOwners.get(message.appId);
+    if (owner && owner !== socket && owner.readyState === owner.OPEN && !client?.admin) {
+      return deny(`controls for ${message.appId} are registered by another connection`);
+    }
+  }
+  return null;
+};
+
+// A paired remote only ever reaches the screen it paired with.
+const scopeTarget = (client: WsClient | undefined, target: string | undefined) =>
+  client?.pairedScreenId && !client.admin ? `screen:${client.pairedScreenId}` : target;
+
+const parseClientHello = (input: MessageOf<'hello'>): WsClient => {
+  const screenId = input.screenId?.trim() || null;
+  const groups = (input.groups ?? [])
+    .map((group) => group.trim())
+    .filter((group) => group.length > 0);
+  const admin = isAdminToken(input.token);
+  const session = admin ? null : pairingStore.verify(input.token);
+  return {
+    role: input.role,
+    screenId,
+    groups,
+    admin,
+    pairedScreenId: session?.screenId ?? null,
+    trustedScreen:
+      input.role === 'screen' && (admin || tokenMatches(getAuthConfig().screenToken, input.token)),
+  };
+};
+
+// The open socket already claiming a screenId, other than `socket` itself.
+const findScreenSocket = (screenId: string, socket: WebSocket) =>
+  Array.from(wsClients.entries()).find(
+    ([other, info]) =>
+      other !== socket &&
+      other.readyState === other.OPEN &&
+      info.role === 'screen' &&
+      info.screenId === screenId
+  )?.[0] ?? null;
+
+const lastPairingCodes = new WeakMap<WebSocket, string | null>();
+
+// Screens show the current code under their QR; only changes are pushed.
+// Anyone can claim a screenId, so codes only go to screens that proved
+// themselves with the screen token.
+const sendPairingCode = (socket: WebSocket, client: WsClient) => {
+  if (client.role !== 'screen' || !client.screenId) return;
+  const entry =
+    getAuthConfig().pairing && client.trustedScreen ? pairingStore.getCode(client.screenId) : null;
+  const code = entry?.code ?? null;
+  if (lastPairingCodes.has(socket) && lastPairingCodes.get(socket) === code) return;
+  lastPairingCodes.set(socket, code);
+  socket.send(
+    JSON.stringify({ type: 'pairing', code, expiresAt: entry?.expiresAt ?? null })
+  );
+};
+
+const getRequestToken = (req: express.Request) => {
+  const header = req.headers.authorization;
+  if (typeof header === 'string' && header.startsWith('Bearer ')) {
+    return header.slice('Bearer '.length).trim();
+  }
+  return null;
+};
+
+const requireAdmin: express.RequestHandler = (req, res, next) => {
+  const { adminToken, pairing } = getAuthConfig();
+  if (adminToken ? isAdminToken(getRequestToken(req)) : !pairing) {
+    next();
+    return;
+  }
+  res.status(401).json({
+    error: 'admin_required',
+    message: adminToken
+      ? 'send the admin token as "Authorization: Bearer <token>"'
+      : 'set auth.admin_token in chiba.toml to enable admin actions',
+  });
+};
+
+const getTakeoverMessage = () =>
+  JSON.stringify(
+    activeTakeover
+      ? { type: 'takeover', active: true, ...activeTakeover }
+      : { type: 'takeover', active: false }
+  );
+
+const clearTakeover = () => {
+  if (takeoverTimer) {
+    clearTimeout(takeoverTimer);
+    takeoverTimer = null;
+  }
+  if (!activeTakeover) return;
+  activeTakeover = null;
+  console.log('[takeover] cleared');
+  broadcast(getTakeoverMessage());
+};
+
+const scheduleTakeoverExpiry = () => {
+  if (takeoverTimer) clearTimeout(takeoverTimer);
+  takeoverTimer = null;
+  const until = activeTakeover?.until;
+  if (!until) return;
+  const remainingMs = until - Date.now();
+  if (remainingMs <= 0) {
+    clearTakeover();
+    return;
+  }
+  // setTimeout overflows past ~24.8 days, so re-arm in chunks.
+  takeoverTimer = setTimeout(scheduleTakeoverExpiry, Math.min(remainingMs, 2_147_483_647));
+};
+
+const parseTakeoverUntil = (input: Record<string, unknown>): number | null => {
+  if (typeof input.until === 'number' && Number.isFinite(input.until)) return input.until;
+  if (typeof input.until === 'string') {
+    const parsed = Date.parse(input.until);
+    if (Number.isFinite(parsed)) return parsed;
+  }
+  if (typeof input.duration_sec === 'number' && input.duration_sec > 0) {
+    return Date.now() + input.duration_sec * 1000;
+  }
+  return null;
+};
+
+const setTakeover = (input: Record<string, unknown>): Takeover | null => {
+  const pick = (value: unknown) =>
+    typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  const url = pick(input.url);
+  const title = pick(input.title);
+  const message = pick(input.message);
+  const until = parseTakeoverUntil(input);
+  if (!url && !title && !message) return null;
+  if (until !== null && until <= Date.now()) return null;
+
+  activeTakeover = { url, title, message, until, startedAt: Date.now() };
+  scheduleTakeoverExpiry();
+  console.log(
+    '[takeover] active',
+    url ?? title ?? message,
+    until ? new Date(until).toISOString() : 'until cleared'
+  );
+  broadcast(getTakeoverMessage());
+  return activeTakeover;
+};
+
+const getSourceDirs = () =>
+  (loadedConfig?.channels ?? [])
+    .map((channel) => channel.source_dir)
+    .filter((dir): dir is string => Boolean(dir));
+
+const libraryScanner = createLibraryScanner(({ added, removed }) => {
+  console.log(`[library] changed (+${added.length} -${removed.length})`);
+  const sourceDirs = getSourceDirs();
+  const touchesChannel = [...added, ...removed].some((file) =>
+    sourceDirs.some((dir) => file.startsWith(`${dir}${path.sep}`))
+  );
+  if (touchesChannel) {
+    scheduleRebuild();
+    return;
+  }
+  broadcast(JSON.stringify({ type: 'index', source: 'library' }));
+});
+
+const watchSourceDirs = () => {
+  sourceDirWatchers.forEach((watcher) => watcher.close());
+  sourceDirWatchers = [];
+  getSourceDirs().forEach((dir) => {
+    if (!fs.existsSync(dir)) return;
+    try {
+      sourceDirWatchers.push(fs.watch(dir, scheduleRebuild));
+    } catch (err) {
+      console.warn('[index] cannot watch source_dir', dir, (err as Error).message);
+    }
+  });
+};
+
 async function rebuildIndex() {
   try {
     if (fs.existsSync(configPath)) {
       loadedConfig = await loadConfig(configPath);
+      warnAuthConfig();
       mediaRoots = loadedConfig.libraryRoots;
-      guideIndex = buildIndexFromConfig(loadedConfig);
+      libraryScanner.configure(mediaRoots, {
+        scanIntervalSec: loadedConfig.config.index?.scan_interval_sec,
+        fullScanOnStart: loadedConfig.config.index?.full_scan_on_start,
+      });
+      watchSourceDirs();
+      captureRegistry.sync(loadedConfig.channels);
+      guideIndex = buildIndexFromConfig(loadedConfig, overrideStore.list());
+      scheduleOverrideExpiry();
       console.log(`[index] rebuilt from TOML (${guideIndex.channels.length} channels)`);
       broadcast(JSON.stringify({ type: 'index', source: 'toml' }));
+      refreshScreenGroups();
       return;
     }
     guideIndex = await buildIndexFromFile(sourcesFile);
@@ -550,10 +1044,56 @@ async function rebuildIndex() {
     broadcast(JSON.stringify({ type: 'index', source: 'json' }));
   } catch (err) {
     console.error('[index] rebuild failed', (err as Error).message);
+    try {
+      const { diagnostics } = await validateConfig(configPath);
+      diagnostics.forEach((diagnostic) => {
+        console.error(`[config] ${formatDiagnostic(diagnostic, repoRoot)}`);
+      });
+    } catch (validateErr) {
+      console.error('[config] validation failed', (validateErr as Error).message);
+    }
   }
 }
 
-void rebuildIndex();
+// A failed override load still builds the guide, just without overrides.
+void overrideStore
+  .load()
+  .catch((err) => console.error('[overrides] load failed', (err as Error).message))
+  .then(rebuildIndex)
+  .catch((err) => console.error('[index] initial build failed', (err as Error).message));
+void pairingStore
+  .load()
+  .catch((err) => console.error('[pairing] load failed', (err as Error).message));
+void controlStore.load();
+
+const applyOverrides = () => {
+  if (!loadedConfig) return;
+  guideIndex = buildIndexFromConfig(loadedConfig, overrideStore.list());
+  console.log(`[index] applied ${overrideStore.list().length} overrides`);
+  broadcast(JSON.stringify({ type: 'index', source: 'overrides' }));
+  scheduleOverrideExpiry();
+};
+
+// setTimeout overflows past ~24.8 days; longer waits just re-arm.
+const MAX_TIMER_MS = 2 ** 31 - 1;
+let overrideExpiryTimer: NodeJS.Timeout | null = null;
+
+// Rebuilds as the next override ends so expired ones leave the guide.
+function scheduleOverrideExpiry() {
+  if (overrideExpiryTimer) clearTimeout(overrideExpiryTimer);
+  overrideExpiryTimer = null;
+  const nextEnd = Math.min(...overrideStore.list().map((override) => Date.parse(override.end)));
+  if (!Number.isFinite(nextEnd)) return;
+  const delay = Math.min(MAX_TIMER_MS, Math.max(0, nextEnd - Date.now()) + 1000);
+  overrideExpiryTimer = setTimeout(() => {
+    overrideExpiryTimer = null;
+    if (Date.now() >= nextEnd) {
+      applyOverrides();
+    } else {
+      scheduleOverrideExpiry();
+    }
+  }, delay);
+}
 
 const scheduleRebuild = () => {
   if (rebuildTimer) clearTimeout(rebuildTimer);
@@ -621,7 +1161,13 @@ const computeConfigFingerprint = async () => {
       );
       entries = stats;
     }
-    return `${configStat.mtimeMs}|${entries.join('|')}`;
+    const sourceDirStats = await Promise.all(
+      getSourceDirs().map(async (dir) => {
+        const stat = await fsp.stat(dir).catch(() => null);
+        return `${dir}:${stat?.mtimeMs ?? 0}`;
+      })
+    );
+    return `${configStat.mtimeMs}|${entries.join('|')}|${sourceDirStats.join('|')}`;
   } catch {
     return '';
   }
@@ -657,6 +1203,161 @@ app.get('/api/index', (_req, res) => {
   res.json(guideIndex);
 });
 
+app.get('/api/takeover', (_req, res) => {
+  res.json({ takeover: activeTakeover });
+});
+
+app.post('/api/takeover', requireAdmin, express.json(), (req, res) => {
+  const takeover = setTakeover((req.body ?? {}) as Record<string, unknown>);
+  if (!takeover) {
+    res.status(400).json({
+      error: 'invalid_takeover',
+      message: 'url, title or message is required and until must be in the future',
+    });
+    return;
+  }
+  res.status(201).json({ takeover });
+});
+
+app.delete('/api/takeover', requireAdmin, (_req, res) => {
+  clearTakeover();
+  res.json({ ok: true });
+});
+
+app.get('/api/overrides', (_req, res) => {
+  res.json({ overrides: overrideStore.list() });
+});
+
+app.post('/api/overrides', requireAdmin, express.json(), async (req, res) => {
+  if (!loadedConfig) {
+    res.status(503).json({ error: 'config_not_loaded' });
+    return;
+  }
+  try {
+    const catalog = Object.fromEntries(
+      loadedConfig.channels.map((channel) => [
+        channel.id,
+        channel.programs.map((program) => program.title),
+      ])
+    );
+    const override = await overrideStore.add(
+      (req.body ?? {}) as ScheduleOverrideInput,
+      catalog
+    );
+    applyOverrides();
+    res.status(201).json(override);
+  } catch (err) {
+    if (err instanceof OverrideError) {
+      res.status(400).json({
+        error: 'invalid_override',
+        message: err.message,
+        ...(err.validTitles ? { validTitles: err.validTitles } : {}),
+      });
+      return;
+    }
+    console.error('[overrides] save failed', (err as Error).message);
+    res.status(500).json({ error: 'override_save_failed' });
+  }
+});
+
+app.delete('/api/overrides/:id', requireAdmin, async (req, res) => {
+  try {
+    const removed = await overrideStore.remove(req.params.id);
+    if (!removed) {
+      res.status(404).json({ error: 'override_not_found' });
+      return;
+    }
+    applyOverrides();
+    res.json({ ok: true });
+  } catch (err) {
+    console.error('[overrides] delete failed', (err as Error).message);
+    res.status(500).json({ error: 'override_delete_failed' });
+  }
+});
+
+app.post('/api/pair', express.json(), async (req, res) => {
+  const code = typeof req.body?.code === 'string' ? req.body.code.replace(/\D/g, '') : '';
+  if (!code) {
+    res.status(400).json({ error: 'missing_code' });
+    return;
+  }
+  try {
+    const result = await pairingStore.redeem(code, req.ip ?? req.socket.remoteAddress ?? 'unknown');
+    if (!result.ok) {
+      res.status(result.error === 'too_many_attempts' ? 429 : 401).json({ error: result.error });
+      return;
+    }
+    console.log('[pairing] remote paired with', result.session.screenId);
+    // The redeemed code is gone; show the screen its replacement right away.
+    wsClients.forEach((client, socket) => {
+      if (client.screenId === result.session.screenId && socket.readyState === socket.OPEN) {
+        sendPairingCode(socket, client);
+      }
+    });
+    res.status(201).json({ token: result.session.token, screenId: result.session.screenId });
+  } catch (err) {
+    console.error('[pairing] pair failed', (err as Error).message);
+    res.status(500).json({ error: 'pair_failed' });
+  }
+});
+
+app.delete('/api/pair', async (req, res) => {
+  const token = getRequestToken(req);
+  try {
+    if (!token || !(await pairingStore.revoke(token))) {
+      res.status(404).json({ error: 'unknown_session' });
+      return;
+    }
+    res.json({ ok: true });
+  } catch (err) {
+    console.error('[pairing] unpair failed', (err as Error).message);
+    res.status(500).json({ error: 'unpair_failed' });
+  }
+});
+
+app.get('/api/library', (req, res) => {
+  const catalog = libraryScanner.getCatalog();
+  const kind = typeof req.query.kind === 'string' ? (req.query.kind as LibraryMediaKind) : null;
+  const entries = kind
+    ? catalog.entries.filter((entry) => entry.kind === kind)
+    : catalog.entries;
+  res.json({ ...catalog, count: entries.length, entries });
+});
+
+// Lists IPs and user agents, so it is admin-only like the controls.
+app.get('/api/screens', requireAdmin, (_req, res) => {
+  res.json({ screens: screenRegistry.list() });
+});
+
+app.get('/api/screens/:id/state', requireAdmin, (req, res) => {
+  const state = screenRegistry.getState(req.params.id);
+  if (!state) {
+    res.status(404).json({ error: 'unknown_screen' });
+    return;
+  }
+  res.json(state);
+});
+
+app.get('/api/captures', (_req, res) => {
+  res.json({
+    browserRunning: captureRegistry.isBrowserRunning(),
+    captures: captureRegistry.list(),
+  });
+});
+
+app.get('/api/config/diagnostics', async (_req, res) => {
+  if (!fs.existsSync(configPath)) {
+    res.status(404).json({ error: 'config_not_found' });
+    return;
+  }
+  try {
+    res.json(await validateConfig(configPath));
+  } catch (err) {
+    console.error('[config] validation failed', (err as Error).message);
+    res.status(500).json({ error: 'config_validation_failed' });
+  }
+});
+
 app.get('/api/debug/media', (_req, res) => {
   const uptimeSec = Math.floor((Date.now() - mediaStats.startedAt) / 1000);
   const topPaths = Array.from(mediaPathStats.values())
@@ -693,10 +1394,66 @@ app.get('/api/remote', (req, res) => {
         : null;
   const baseUrl = getRemoteBaseUrl(req, { port, scheme });
   const remoteUrl = `${baseUrl}/remote`;
-  const qrUrl = `${QR_BASE}${encodeURIComponent(remoteUrl)}`;
+  const qrUrl = buildQrUrl(remoteUrl, 180);
   res.json({ baseUrl, remoteUrl, qrUrl });
 });
 
+const QR_MAX_DATA_LENGTH = 1024;
+const QR_ERROR_CORRECTION = ['L', 'M', 'Q', 'H'];
+
+const readQrNumber = (value: unknown, fallback: number, min: number, max: number) => {
+  const parsed = typeof value === 'string' && value.trim() ? Number(value) : NaN;
+  return Number.isFinite(parsed) ? Math.min(max, Math.max(min, Math.round(parsed))) : fallback;
+};
+
+const sendQr = (req: express.Request, res: express.Response, format: 'svg' | 'png') => {
+  const data = typeof req.query.data === 'string' ? req.query.data : '';
+  if (!data) {
+    res.status(400).json({ error: 'missing_data' });
+    return;
+  }
+  if (data.length > QR_MAX_DATA_LENGTH) {
+    res.status(400).json({ error: 'data_too_long', message: `data is limited to ${QR_MAX_DATA_LENGTH} characters` });
+    return;
+  }
+  const foreground = typeof req.query.fg === 'string' ? req.query.fg : undefined;
+  const background = typeof req.query.bg === 'string' ? req.query.bg : undefined;
+  if ((foreground && !isQrColor(foreground)) || (background && !isQrColor(background))) {
+    res.status(400).json({ error: 'invalid_color', message: 'fg and bg must be hex colors like #0a1121' });
+    return;
+  }
+  const ecc = typeof req.query.ecc === 'string' ? req.query.ecc.toUpperCase() : 'M';
+  if (!QR_ERROR_CORRECTION.includes(ecc)) {
+    res.status(400).json({ error: 'invalid_ecc', message: 'ecc must be L, M, Q or H' });
+    return;
+  }
+  const options = {
+    size: readQrNumber(req.query.size, 200, 64, 1024),
+    margin: readQrNumber(req.query.margin, 2, 0, 16),
+    foreground,
+    background,
+  };
+  let modules: QrMatrix;
+  try {
+    modules = encodeQr(data, ecc as QrErrorCorrection);
+  } catch (err) {
+    res.status(400).json({ error: 'data_too_long', message: (err as Error).message });
+    return;
+  }
+  // The image is a pure function of the query, so browsers may keep it.
+  res.setHeader('Cache-Control', 'public, max-age=86400');
+  if (format === 'svg') {
+    res.setHeader('Content-Type', 'image/svg+xml');
+    res.send(renderQrSvg(modules, options));
+  } else {
+    res.setHeader('Content-Type', 'image/png');
+    res.send(renderQrPng(modules, options));
+  }
+};
+
+app.get('/api/qr.svg', (req, res) => sendQr(req, res, 'svg'));
+app.get('/api/qr.png', (req, res) => sendQr(req, res, 'png'));
+
 function isPathAllowed(target: string): boolean {
   if (!mediaRoots.length) return false;
   const resolved = path.resolve(target);
@@ -842,7 +1599,7 @@ app.get('/media/:id', async (req, res) => {
 
 app.get('/api/controls/:appId', (req, res) => {
   const appId = req.params.appId;
-  const schema = controlSchemas.get(appId);
+  const schema = controlStore.get(appId);
   if (!schema) {
     res.status(404).json({ error: 'controls_not_found' });
     return;
@@ -850,8 +1607,84 @@ app.get('/api/controls/:appId', (req, res) => {
   res.json(schema);
 });
 
-app.get('/village.jpg', (_req, res) => {
-  const frame = villageCapture.getFrame();
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/"/g, '&quot;');
+
+const buildCapturePage = (title: string, options: CaptureOptions) => `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>${escapeHtml(title)}</title>
+    <style>
+      html, body {
+        height: 100%;
+        margin: 0;
+        background: ${options.background};
+      }
+      body {
+        position: relative;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        overflow: hidden;
+      }
+      #frame {
+        width: 100vw;
+        height: 100vh;
+        object-fit: ${options.fit};
+        object-position: center;
+        display: block;
+        background: ${options.background};
+      }
+      #status {
+        position: absolute;
+        top: 16px;
+        right: 16px;
+        padding: 6px 10px;
+        border-radius: 999px;
+        font-family: "Alegreya Sans", "Segoe UI", sans-serif;
+        font-size: 12px;
+        letter-spacing: 0.08em;
+        text-transform: uppercase;
+        color: rgba(230, 240, 255, 0.8);
+        background: rgba(10, 18, 32, 0.6);
+        border: 1px solid rgba(126, 215, 255, 0.35);
+      }
+    </style>
+  </head>
+  <body>
+    <img id="frame" alt="${escapeHtml(title)} feed" />
+    <div id="status">Loading...</div>
+    <script>
+      const img = document.getElementById('frame');
+      const status = document.getElementById('status');
+      const streamUrl = ${JSON.stringify(`/capture/${encodeURIComponent(options.channelId)}/stream.mjpeg`)};
+      let retryTimer = null;
+      const connect = () => {
+        retryTimer = null;
+        img.src = streamUrl + '?ts=' + Date.now();
+      };
+      img.addEventListener('load', () => {
+        status.textContent = 'Live';
+      });
+      img.addEventListener('error', () => {
+        status.textContent = 'Connecting';
+        if (!retryTimer) retryTimer = setTimeout(connect, 2000);
+      });
+      connect();
+    </script>
+  </body>
+</html>`;
+
+app.get('/capture/:channelId.jpg', (req, res) => {
+  const capture = captureRegistry.get(req.params.channelId);
+  if (!capture) {
+    res.status(404).send('capture_not_found');
+    return;
+  }
+  capture.touch();
+  const frame = capture.getFrame();
   if (!frame) {
     res.status(503).send('capture_not_ready');
     return;
@@ -861,12 +1694,46 @@ app.get('/village.jpg', (_req, res) => {
   res.send(frame.buffer);
 });
 
+app.get('/capture/:channelId/stream.mjpeg', (req, res) => {
+  const capture = captureRegistry.get(req.params.channelId);
+  if (!capture) {
+    res.status(404).send('capture_not_found');
+    return;
+  }
+  const release = capture.watch();
+  req.on('close', release);
+  streamMjpeg(req, res, capture, { maxFps: parseMjpegFps(req.query.fps) });
+});
+
+app.get('/capture/:channelId', (req, res) => {
+  const capture = captureRegistry.get(req.params.channelId);
+  if (!capture) {
+    res.status(404).send('capture_not_found');
+    return;
+  }
+  capture.touch();
+  res.setHeader('Content-Type', 'text/html');
+  res.send(buildCapturePage(getChannelName(req.params.channelId), capture.options));
+});
+
+// Routes from before captures moved into channel manifests.
+const LEGACY_CAPTURE_ROUTES: Record<string, string> = {
+  village: 'ai-village',
+  weatherstar: 'weatherstar',
+};
+
+Object.entries(LEGACY_CAPTURE_ROUTES).forEach(([route, channelId]) => {
+  app.get(`/${route}.jpg`, (_req, res) => res.redirect(`/capture/${channelId}.jpg`));
+  app.get(`/${route}`, (_req, res) => res.redirect(`/capture/${channelId}`));
+});
+
 app.get('/village/live', (req, res) => {
   const hideMask =
     req.query.mask === '0' ||
     req.query.mask === 'false' ||
     req.query.mask === 'off';
-  const sourceUrl = villageCapture.options.url;
+  const sourceUrl =
+    captureRegistry.get('ai-village')?.options.url ?? 'https://theaidigest.org/village';
   res.setHeader('Content-Type', 'text/html');
   res.send(`<!doctype html>
 <html lang="en">
@@ -935,75 +1802,6 @@ app.get('/village/live', (req, res) => {
 </html>`);
 });
 
-app.get('/village', (_req, res) => {
-  res.setHeader('Content-Type', 'text/html');
-  res.send(`<!doctype html>
-<html lang="en">
-  <head>
-    <meta charset="utf-8" />
-    <meta name="viewport" content="width=device-width, initial-scale=1" />
-    <title>AI Village</title>
-    <style>
-      html, body {
-        height: 100%;
-        margin: 0;
-        background: #0a0f1a;
-      }
-      body {
-        position: relative;
-        display: flex;
-        align-items: center;
-        justify-content: center;
-        overflow: hidden;
-      }
-      #frame {
-        width: 100vw;
-        height: 100vh;
-        object-fit: contain;
-        object-position: center;
-        display: block;
-        background: #0a0f1a;
-      }
-      #status {
-        position: absolute;
-        top: 16px;
-        right: 16px;
-        padding: 6px 10px;
-        border-radius: 999px;
-        font-family: "Alegreya Sans", "Segoe UI", sans-serif;
-        font-size: 12px;
-        letter-spacing: 0.08em;
-        text-transform: uppercase;
-        color: rgba(230, 240, 255, 0.8);
-        background: rgba(10, 18, 32, 0.6);
-        border: 1px solid rgba(126, 215, 255, 0.35);
-      }
-    </style>
-  </head>
-  <body>
-    <img id="frame" alt="AI Village feed" />
-    <div id="status">Loading...</div>
-    <script>
-      const img = document.getElementById('frame');
-      const status = document.getElementById('status');
-      const refreshMs = ${villageCapture.options.intervalMs};
-      const tick = () => {
-        const ts = Date.now();
-        img.src = '/village.jpg?ts=' + ts;
-      };
-      img.addEventListener('load', () => {
-        status.textContent = 'Live';
-      });
-      img.addEventListener('error', () => {
-        status.textContent = 'Connecting';
-      });
-      tick();
-      setInterval(tick, refreshMs);
-    </script>
-  </body>
-</html>`);
-});
-
 app.get('/embed/:id', async (req, res) => {
   const embed = getEmbedConfig(req.params.id);
   if (!embed?.url) {
@@ -1044,9 +1842,7 @@ app.get('/mars', (_req, res) => {
     'https://vdo.ninja/?view=QQA3g6X316&room=Mars_Public_Access_Network&pw=marscollege&scene&api=1';
   const pushUrl =
     'https://vdo.ninja/?push=QQA3g6X316&room=Mars_Public_Access_Network&pw=marscollege';
-  const qrUrl =
-    'https://api.qrserver.com/v1/create-qr-code/?size=200x200&margin=0&data=' +
-    encodeURIComponent(pushUrl);
+  const qrUrl = buildQrUrl(pushUrl, 200);
   res.setHeader('Content-Type', 'text/html');
   res.send(`<!doctype html>
 <html lang="en">
@@ -1163,86 +1959,6 @@ app.get('/mars', (_req, res) => {
 </html>`);
 });
 
-app.get('/weatherstar.jpg', (_req, res) => {
-  const frame = weatherstarCapture.getFrame();
-  if (!frame) {
-    res.status(503).send('capture_not_ready');
-    return;
-  }
-  res.setHeader('Content-Type', 'image/jpeg');
-  res.setHeader('Cache-Control', 'no-store');
-  res.send(frame.buffer);
-});
-
-app.get('/weatherstar', (_req, res) => {
-  res.setHeader('Content-Type', 'text/html');
-  res.send(`<!doctype html>
-<html lang="en">
-  <head>
-    <meta charset="utf-8" />
-    <meta name="viewport" content="width=device-width, initial-scale=1" />
-    <title>WeatherStar</title>
-    <style>
-      html, body {
-        height: 100%;
-        margin: 0;
-        background: #05060a;
-      }
-      body {
-        position: relative;
-        display: flex;
-        align-items: center;
-        justify-content: center;
-        overflow: hidden;
-      }
-      #frame {
-        width: 100vw;
-        height: 100vh;
-        object-fit: cover;
-        object-position: center;
-        display: block;
-        background: #05060a;
-      }
-      #status {
-        position: absolute;
-        top: 16px;
-        right: 16px;
-        padding: 6px 10px;
-        border-radius: 999px;
-        font-family: "Alegreya Sans", "Segoe UI", sans-serif;
-        font-size: 12px;
-        letter-spacing: 0.08em;
-        text-transform: uppercase;
-        color: rgba(230, 240, 255, 0.8);
-        background: rgba(6, 12, 24, 0.55);
-        border: 1px solid rgba(120, 200, 255, 0.35);
-      }
-    </style>
-  </head>
-  <body>
-    <img id="frame" alt="WeatherStar feed" />
-    <div id="status">Loading...</div>
-    <script>
-      const img = document.getElementById('frame');
-      const status = document.getElementById('status');
-      const refreshMs = ${weatherstarCapture.options.intervalMs};
-      const tick = () => {
-        const ts = Date.now();
-        img.src = '/weatherstar.jpg?ts=' + ts;
-      };
-      img.addEventListener('load', () => {
-        status.textContent = 'Live';
-      });
-      img.addEventListener('error', () => {
-        status.textContent = 'Connecting';
-      });
-      tick();
-      setInterval(tick, refreshMs);
-    </script>
-  </body>
-</html>`);
-});
-
 app.use(express.static(distDir, { index: false }));
 
 function getBaseUrl(req: express.Request): string {
@@ -1255,9 +1971,6 @@ function getBaseUrl(req: express.Request): string {
   return `${scheme}://${host}`;
 }
 
-const QR_BASE =
-  'https://api.qrserver.com/v1/create-qr-code/?size=180x180&margin=0&data=';
-
 type RemoteBaseOptions = {
   scheme?: string | null;
   port?: number | null;
@@ -1352,47 +2065,198 @@ const heartbeatTimer = setInterval(() => {
   });
 }, WS_HEARTBEAT_MS);
 
+const PAIRING_REFRESH_MS = 15000;
+
+const pairingTimer = setInterval(() => {
+  wsClients.forEach((client, socket) => {
+    if (socket.readyState === socket.OPEN) sendPairingCode(socket, client);
+  });
+}, PAIRING_REFRESH_MS);
+
 wss.on('connection', (socket, req) => {
   wsAlive.set(socket, true);
   console.log('[ws] client connected', req.socket.remoteAddress ?? 'unknown');
+  const remoteAddress = req.socket.remoteAddress ?? null;
+  const userAgent = req.headers['user-agent'] ?? null;
   socket.on('pong', () => {
     wsAlive.set(socket, true);
+    const info = wsClients.get(socket);
+    if (info?.role === 'screen' && info.screenId) {
+      screenRegistry.heartbeat(info.screenId);
+    }
   });
   socket.on('close', (code, reason) => {
     const detail = reason?.toString?.() ?? '';
     console.log('[ws] client closed', code, detail);
+    const info = wsClients.get(socket);
+    wsClients.delete(socket);
+    controlOwners.forEach((owner, appId) => {
+      if (owner === socket) controlOwners.delete(appId);
+    });
+    if (info?.role === 'screen') {
+      // A replaced connection closes after its successor said hello.
+      if (info.screenId && !findScreenSocket(info.screenId, socket)) {
+        screenRegistry.disconnect(info.screenId);
+      }
+      broadcastScreens();
+    }
   });
   socket.on('error', (err) => {
     console.warn('[ws] client error', err.message);
   });
+  if (activeTakeover) {
+    socket.send(getTakeoverMessage());
+  }
   socket.on('message', (data) => {
-    const message = data.toString();
-    try {
-      const parsed = JSON.parse(message) as { type?: string; appId?: string; controls?: RemoteControl[] };
-      if (parsed?.type === 'controls' && parsed.appId && Array.isArray(parsed.controls)) {
-        controlSchemas.set(parsed.appId, {
-          appId: parsed.appId,
-          controls: parsed.controls,
-          updatedAt: Date.now(),
+    const result = parseClientMessage(data.toString());
+    if (!result.ok) {
+      console.warn('[ws] rejected', result.error.code, result.error.message);
+      socket.send(JSON.stringify(createErrorMessage(result.error)));
+      return;
+    }
+    const parsed = result.message;
+    if (parsed.type === 'hello') {
+      if (!isSupportedProtocol(parsed.protocol)) {
+        console.warn('[ws] unsupported protocol', parsed.protocol);
+        socket.send(
+          JSON.stringify(
+            createErrorMessage({
+              code: 'unsupported_protocol',
+              message: `server speaks protocol ${PROTOCOL_VERSION}, client sent ${parsed.protocol}`,
+              ref: 'hello',
+            })
+          )
+        );
+        socket.close(1002, 'unsupported_protocol');
+        return;
+      }
+      const info = parseClientHello(parsed);
+      const claimed =
+        info.role === 'screen' && info.screenId ? findScreenSocket(info.screenId, socket) : null;
+      if (claimed) {
+        // A trusted screen replaces a stale connection (e.g. after a reload);
+        // anyone else is refused so they cannot shadow a live screen.
+        if (!info.trustedScreen) {
+          console.warn('[ws] refused duplicate screen', info.screenId);
+          socket.send(
+            JSON.stringify(
+              createErrorMessage({
+                code: 'unauthorized',
+                message: `screen ${info.screenId} is already connected`,
+                ref: 'hello',
+              })
+            )
+          );
+          socket.close(1008, 'screen_in_use');
+          return;
+        }
+        claimed.close(1008, 'screen_replaced');
+      }
+      const previous = wsClients.get(socket);
+      wsClients.set(socket, info);
+      socket.send(
+        JSON.stringify(
+          createWelcomeMessage({
+            pairingRequired: getAuthConfig().pairing,
+            pairedScreenId: info.pairedScreenId,
+            admin: info.admin,
+          })
+        )
+      );
+      if (previous?.role === 'screen' && previous.screenId) {
+        screenRegistry.disconnect(previous.screenId);
+      }
+      if (info.role === 'screen' && info.screenId) {
+        socket.send(getGroupMessage(info));
+        sendPairingCode(socket, info);
+        screenRegistry.connect(info.screenId, {
+          groups: getClientGroups(info),
+          ip: remoteAddress,
+          userAgent,
+          view: parsed.view ?? null,
         });
       }
-    } catch {
-      // ignore parse errors
+      console.log(
+        '[ws] hello',
+        info.role,
+        info.screenId ?? '-',
+        info.groups.join(',') || '-',
+        info.admin ? 'admin' : info.pairedScreenId ? `paired:${info.pairedScreenId}` : '-'
+      );
+      if (info.role === 'screen' || previous?.role === 'screen') {
+        broadcastScreens();
+      } else {
+        socket.send(getScreensMessage());
+      }
+      if (info.role === 'remote') {
+        replayScreenState(socket, scopeTarget(info, parsed.target));
+      }
+      return;
+    }
+    if (parsed.type === 'clock') {
+      socket.send(
+        JSON.stringify({ type: 'clock', clientSentAt: parsed.clientSentAt, serverTime: Date.now() })
+      );
+      return;
     }
-    wss.clients.forEach((client) => {
-      if (client.readyState === client.OPEN) {
-        client.send(message);
+    const sender = wsClients.get(socket);
+    const denied = authorizeMessage(socket, sender, parsed);
+    if (denied) {
+      console.warn('[ws] unauthorized', parsed.type, denied.message);
+      socket.send(JSON.stringify(createErrorMessage(denied)));
+      return;
+    }
+    if (parsed.type === 'takeover') {
+      if (parsed.active === false) {
+        clearTakeover();
+      } else {
+        setTakeover(parsed);
       }
-    });
+      return;
+    }
+    if (parsed.type === 'controls') {
+      const schema = controlStore.register(parsed.appId, parsed.controls, parsed.sensors);
+      controlOwners.set(parsed.appId, socket);
+      // Hand the app the values the audience left it at.
+      Object.entries(schema.values).forEach(([controlId, value]) => {
+        socket.send(JSON.stringify({ type: 'control', appId: parsed.appId, controlId, value }));
+      });
+    }
+    if (parsed.type === 'control' && parsed.value !== undefined) {
+      controlStore.setValue(parsed.appId, parsed.controlId, parsed.value);
+    }
+    if (sender?.role === 'screen' && sender.screenId) {
+      recordScreenMessage(sender.screenId, parsed);
+      if (parsed.type === 'status') {
+        sendToControllers(JSON.stringify({ ...parsed, from: sender.screenId }));
+        return;
+      }
+      if (parsed.type === 'now') {
+        followGroupTune(socket, sender, parsed.number);
+        warmCapture(parsed.channelId, parsed.url);
+      }
+      const stamped = JSON.stringify({ ...parsed, from: sender.screenId });
+      if (CONTROL_MESSAGE_TYPES.has(parsed.type) && !canControl(sender)) {
+        sendToControllers(stamped);
+        return;
+      }
+      routeMessage(stamped, parsed.target);
+      return;
+    }
+    // Only the server stamps `from`; a remote or app must not pose as a screen.
+    const { from: _from, ...unstamped } = parsed;
+    const target = scopeTarget(sender, parsed.target);
+    routeMessage(JSON.stringify(target ? { ...unstamped, target } : unstamped), target);
   });
 });
 
 server.listen(PORT, () => {
   console.log(`Guide server running on http://localhost:${PORT}`);
-  void villageCapture.start();
-  void weatherstarCapture.start();
 });
 
 server.on('close', () => {
   clearInterval(heartbeatTimer);
+  clearInterval(pairingTimer);
+  if (overrideExpiryTimer) clearTimeout(overrideExpiryTimer);
+  void captureRegistry.stopAll();
 });
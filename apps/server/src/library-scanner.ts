@@ -0,0 +1,174 @@
+import type { Dirent, Stats } from 'node:fs';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { probeMediaDuration } from './media-probe.js';
+
+export type LibraryMediaKind = 'video' | 'audio' | 'image';
+
+export type LibraryEntry = {
+  path: string;
+  size: number;
+  mtimeMs: number;
+  kind: LibraryMediaKind;
+  durationSec: number | null;
+};
+
+export type LibraryScanOptions = {
+  scanIntervalSec?: number;
+  fullScanOnStart?: boolean;
+};
+
+type LibraryChange = {
+  added: string[];
+  removed: string[];
+};
+
+const MEDIA_KINDS: Record<string, LibraryMediaKind> = {
+  '.mp4': 'video',
+  '.m4v': 'video',
+  '.mov': 'video',
+  '.webm': 'video',
+  '.mkv': 'video',
+  '.mp3': 'audio',
+  '.m4a': 'audio',
+  '.wav': 'audio',
+  '.ogg': 'audio',
+  '.flac': 'audio',
+  '.aac': 'audio',
+  '.jpg': 'image',
+  '.jpeg': 'image',
+  '.png': 'image',
+  '.gif': 'image',
+  '.webp': 'image',
+};
+
+const DEFAULT_SCAN_INTERVAL_SEC = 300;
+
+export function getLibraryMediaKind(filePath: string): LibraryMediaKind | null {
+  return MEDIA_KINDS[path.extname(filePath).toLowerCase()] ?? null;
+}
+
+async function walk(root: string, files: string[]) {
+  let dirents: Dirent[];
+  try {
+    dirents = await fs.readdir(root, { withFileTypes: true });
+  } catch (err) {
+    console.warn('[library] unreadable', root, (err as Error).message);
+    return;
+  }
+  for (const dirent of dirents) {
+    if (dirent.name.startsWith('.')) continue;
+    const fullPath = path.join(root, dirent.name);
+    if (dirent.isDirectory()) {
+      await walk(fullPath, files);
+    } else if (dirent.isFile() && getLibraryMediaKind(dirent.name)) {
+      files.push(fullPath);
+    }
+  }
+}
+
+export function createLibraryScanner(onChange: (change: LibraryChange) => void) {
+  let roots: string[] = [];
+  let scanIntervalSec = DEFAULT_SCAN_INTERVAL_SEC;
+  let catalog = new Map<string, LibraryEntry>();
+  let timer: NodeJS.Timeout | null = null;
+  let scanning: Promise<void> | null = null;
+  let scannedAt: number | null = null;
+  let configured = false;
+
+  const scanOnce = async () => {
+    const files: string[] = [];
+    for (const root of roots) {
+      await walk(root, files);
+    }
+    const next = new Map<string, LibraryEntry>();
+    for (const filePath of files) {
+      let stat: Stats;
+      try {
+        stat = await fs.stat(filePath);
+      } catch {
+        continue;
+      }
+      const previous = catalog.get(filePath);
+      if (previous && previous.mtimeMs === stat.mtimeMs && previous.size === stat.size) {
+        next.set(filePath, previous);
+        continue;
+      }
+      const kind = getLibraryMediaKind(filePath);
+      if (!kind) continue;
+      next.set(filePath, {
+        path: filePath,
+        size: stat.size,
+        mtimeMs: stat.mtimeMs,
+        kind,
+        durationSec: kind === 'image' ? null : await probeMediaDuration(filePath),
+      });
+    }
+
+    const added = Array.from(next.keys()).filter((key) => !catalog.has(key));
+    const removed = Array.from(catalog.keys()).filter((key) => !next.has(key));
+    const isFirstScan = scannedAt === null;
+    catalog = next;
+    scannedAt = Date.now();
+    console.log(
+      `[library] scanned ${catalog.size} files (+${added.length} -${removed.length})`
+    );
+    if (!isFirstScan && (added.length || removed.length)) {
+      onChange({ added, removed });
+    }
+  };
+
+  const scan = async () => {
+    if (scanning) return scanning;
+    scanning = scanOnce()
+      .catch((err) => {
+        console.error('[library] scan failed', (err as Error).message);
+      })
+      .finally(() => {
+        scanning = null;
+      });
+    return scanning;
+  };
+
+  const stop = () => {
+    if (timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+  };
+
+  const configure = (nextRoots: string[], options: LibraryScanOptions = {}) => {
+    const nextInterval =
+      typeof options.scanIntervalSec === 'number' && options.scanIntervalSec > 0
+        ? options.scanIntervalSec
+        : DEFAULT_SCAN_INTERVAL_SEC;
+    const rootsChanged = nextRoots.join('|') !== roots.join('|');
+    if (configured && !rootsChanged && nextInterval === scanIntervalSec) return;
+
+    const isStart = !configured;
+    configured = true;
+    roots = nextRoots;
+    scanIntervalSec = nextInterval;
+    stop();
+    timer = setInterval(() => {
+      void scan();
+    }, scanIntervalSec * 1000);
+    if (rootsChanged && (!isStart || options.fullScanOnStart !== false)) {
+      void scan();
+    }
+  };
+
+  return {
+    configure,
+    scan,
+    stop,
+    getEntry: (filePath: string) => catalog.get(filePath) ?? null,
+    getCatalog: () => ({
+      roots,
+      scanIntervalSec,
+      scannedAt,
+      scanning: Boolean(scanning),
+      entries: Array.from(catalog.values()),
+    }),
+  };
+}
@@ -0,0 +1,319 @@
+import type { Stats } from 'node:fs';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+export type MediaContainer = 'mp4' | 'webm' | 'mp3';
+
+export type MediaProbeResult = {
+  container: MediaContainer | null;
+  durationSec: number | null;
+};
+
+type ProbeCacheEntry = {
+  mtimeMs: number;
+  size: number;
+  result: MediaProbeResult;
+};
+
+const EBML_HEAD_BYTES = 512 * 1024;
+const MP3_SCAN_BYTES = 256 * 1024;
+
+const MP4_EXTENSIONS = new Set(['.mp4', '.m4v', '.m4a', '.mov']);
+const WEBM_EXTENSIONS = new Set(['.webm', '.mkv', '.mka']);
+const MP3_EXTENSIONS = new Set(['.mp3']);
+
+const probeCache = new Map<string, ProbeCacheEntry>();
+
+async function readAt(
+  handle: fs.FileHandle,
+  position: number,
+  length: number
+): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+}
+
+async function probeMp4(handle: fs.FileHandle, fileSize: number): Promise<number | null> {
+  const findBox = async (
+    start: number,
+    end: number,
+    type: string
+  ): Promise<{ offset: number; headerSize: number; size: number } | null> => {
+    let cursor = start;
+    while (cursor + 8 <= end) {
+      const header = await readAt(handle, cursor, 16);
+      if (header.length < 8) return null;
+      let size = header.readUInt32BE(0);
+      const boxType = header.toString('latin1', 4, 8);
+      let headerSize = 8;
+      if (size === 1) {
+        if (header.length < 16) return null;
+        size = Number(header.readBigUInt64BE(8));
+        headerSize = 16;
+      } else if (size === 0) {
+        size = end - cursor;
+      }
+      if (size < headerSize) return null;
+      if (boxType === type) return { offset: cursor, headerSize, size };
+      cursor += size;
+    }
+    return null;
+  };
+
+  const moov = await findBox(0, fileSize, 'moov');
+  if (!moov) return null;
+  const mvhd = await findBox(
+    moov.offset + moov.headerSize,
+    moov.offset + moov.size,
+    'mvhd'
+  );
+  if (!mvhd) return null;
+  const body = await readAt(handle, mvhd.offset + mvhd.headerSize, 32);
+  if (body.length < 20) return null;
+  const version = body.readUInt8(0);
+  let timescale: number;
+  let duration: number;
+  if (version === 1) {
+    if (body.length < 32) return null;
+    timescale = body.readUInt32BE(20);
+    duration = Number(body.readBigUInt64BE(24));
+  } else {
+    timescale = body.readUInt32BE(12);
+    duration = body.readUInt32BE(16);
+  }
+  if (!timescale || !duration) return null;
+  return duration / timescale;
+}
+
+function readEbmlId(buffer: Buffer, offset: number): { id: number; length: number } | null {
+  if (offset >= buffer.length) return null;
+  const first = buffer[offset];
+  let length = 1;
+  let mask = 0x80;
+  while (length <= 4 && !(first & mask)) {
+    mask >>= 1;
+    length += 1;
+  }
+  if (length > 4 || offset + length > buffer.length) return null;
+  let id = 0;
+  for (let i = 0; i < length; i += 1) {
+    id = id * 256 + buffer[offset + i];
+  }
+  return { id, length };
+}
+
+function readEbmlSize(
+  buffer: Buffer,
+  offset: number
+): { size: number | null; length: number } | null {
+  if (offset >= buffer.length) return null;
+  const first = buffer[offset];
+  let length = 1;
+  let mask = 0x80;
+  while (length <= 8 && !(first & mask)) {
+    mask >>= 1;
+    length += 1;
+  }
+  if (length > 8 || offset + length > buffer.length) return null;
+  let value = first & (mask - 1);
+  let allOnes = value === mask - 1;
+  for (let i = 1; i < length; i += 1) {
+    const byte = buffer[offset + i];
+    if (byte !== 0xff) allOnes = false;
+    value = value * 256 + byte;
+  }
+  return { size: allOnes ? null : value, length };
+}
+
+const EBML_HEADER = 0x1a45dfa3;
+const EBML_SEGMENT = 0x18538067;
+const EBML_INFO = 0x1549a966;
+const EBML_TIMECODE_SCALE = 0x2ad7b1;
+const EBML_DURATION = 0x4489;
+
+function probeWebmBuffer(buffer: Buffer): number | null {
+  let cursor = 0;
+  const header = readEbmlId(buffer, cursor);
+  if (!header || header.id !== EBML_HEADER) return null;
+  const headerSize = readEbmlSize(buffer, cursor + header.length);
+  if (!headerSize || headerSize.size === null) return null;
+  cursor += header.length + headerSize.length + headerSize.size;
+
+  const segment = readEbmlId(buffer, cursor);
+  if (!segment || segment.id !== EBML_SEGMENT) return null;
+  const segmentSize = readEbmlSize(buffer, cursor + segment.length);
+  if (!segmentSize) return null;
+  cursor += segment.length + segmentSize.length;
+
+  while (cursor < buffer.length) {
+    const element = readEbmlId(buffer, cursor);
+    if (!element) return null;
+    const size = readEbmlSize(buffer, cursor + element.length);
+    if (!size || size.size === null) return null;
+    const dataStart = cursor + element.length + size.length;
+    if (element.id === EBML_INFO) {
+      const dataEnd = Math.min(buffer.length, dataStart + size.size);
+      let timecodeScale = 1_000_000;
+      let duration: number | null = null;
+      let inner = dataStart;
+      while (inner < dataEnd) {
+        const child = readEbmlId(buffer, inner);
+        if (!child) break;
+        const childSize = readEbmlSize(buffer, inner + child.length);
+        if (!childSize || childSize.size === null) break;
+        const childStart = inner + child.length + childSize.length;
+        if (childStart + childSize.size > dataEnd) break;
+        if (child.id === EBML_TIMECODE_SCALE) {
+          timecodeScale = buffer.readUIntBE(childStart, Math.min(6, childSize.size));
+        } else if (child.id === EBML_DURATION) {
+          if (childSize.size === 4) duration = buffer.readFloatBE(childStart);
+          if (childSize.size === 8) duration = buffer.readDoubleBE(childStart);
+        }
+        inner = childStart + childSize.size;
+      }
+      if (duration === null || !Number.isFinite(duration)) return null;
+      return (duration * timecodeScale) / 1e9;
+    }
+    cursor = dataStart + size.size;
+  }
+  return null;
+}
+
+async function probeWebm(handle: fs.FileHandle): Promise<number | null> {
+  const buffer = await readAt(handle, 0, EBML_HEAD_BYTES);
+  return probeWebmBuffer(buffer);
+}
+
+const MP3_BITRATES: Record<string, number[]> = {
+  'v1-l1': [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  'v1-l2': [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  'v1-l3': [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  'v2-l1': [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  'v2-l2': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000],
+  2: [22050, 24000, 16000],
+  0: [11025, 12000, 8000],
+};
+
+type Mp3Frame = {
+  bitrate: number;
+  sampleRate: number;
+  samplesPerFrame: number;
+  sideInfoSize: number;
+};
+
+function parseMp3Frame(buffer: Buffer, offset: number): Mp3Frame | null {
+  if (offset + 4 > buffer.length) return null;
+  if (buffer[offset] !== 0xff || (buffer[offset + 1] & 0xe0) !== 0xe0) return null;
+  const versionBits = (buffer[offset + 1] >> 3) & 0x03;
+  const layerBits = (buffer[offset + 1] >> 1) & 0x03;
+  const bitrateIndex = (buffer[offset + 2] >> 4) & 0x0f;
+  const sampleRateIndex = (buffer[offset + 2] >> 2) & 0x03;
+  const channelMode = (buffer[offset + 3] >> 6) & 0x03;
+  if (versionBits === 1 || layerBits === 0) return null;
+  if (bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) return null;
+  const isV1 = versionBits === 3;
+  const layer = 4 - layerBits;
+  const tableKey = isV1 ? `v1-l${layer}` : layer === 1 ? 'v2-l1' : 'v2-l2';
+  const bitrate = (MP3_BITRATES[tableKey]?.[bitrateIndex] ?? 0) * 1000;
+  const sampleRate = MP3_SAMPLE_RATES[versionBits]?.[sampleRateIndex] ?? 0;
+  if (!bitrate || !sampleRate) return null;
+  const samplesPerFrame = layer === 1 ? 384 : layer === 2 || isV1 ? 1152 : 576;
+  const mono = channelMode === 3;
+  const sideInfoSize = isV1 ? (mono ? 17 : 32) : mono ? 9 : 17;
+  return { bitrate, sampleRate, samplesPerFrame, sideInfoSize };
+}
+
+async function probeMp3(handle: fs.FileHandle, fileSize: number): Promise<number | null> {
+  const head = await readAt(handle, 0, 10);
+  let audioStart = 0;
+  if (head.length === 10 && head.toString('latin1', 0, 3) === 'ID3') {
+    const tagSize =
+      ((head[6] & 0x7f) << 21) |
+      ((head[7] & 0x7f) << 14) |
+      ((head[8] & 0x7f) << 7) |
+      (head[9] & 0x7f);
+    const hasFooter = (head[5] & 0x10) !== 0;
+    audioStart = 10 + tagSize + (hasFooter ? 10 : 0);
+  }
+  const buffer = await readAt(handle, audioStart, MP3_SCAN_BYTES);
+  for (let offset = 0; offset + 4 <= buffer.length; offset += 1) {
+    const frame = parseMp3Frame(buffer, offset);
+    if (!frame) continue;
+    const xingOffset = offset + 4 + frame.sideInfoSize;
+    const xingTag = buffer.toString('latin1', xingOffset, xingOffset + 4);
+    if ((xingTag === 'Xing' || xingTag === 'Info') && xingOffset + 12 <= buffer.length) {
+      const flags = buffer.readUInt32BE(xingOffset + 4);
+      if (flags & 0x01) {
+        const frames = buffer.readUInt32BE(xingOffset + 8);
+        return (frames * frame.samplesPerFrame) / frame.sampleRate;
+      }
+    }
+    const vbriOffset = offset + 4 + 32;
+    if (
+      buffer.toString('latin1', vbriOffset, vbriOffset + 4) === 'VBRI' &&
+      vbriOffset + 18 <= buffer.length
+    ) {
+      const frames = buffer.readUInt32BE(vbriOffset + 14);
+      return (frames * frame.samplesPerFrame) / frame.sampleRate;
+    }
+    const audioBytes = fileSize - audioStart - offset;
+    return (audioBytes * 8) / frame.bitrate;
+  }
+  return null;
+}
+
+export function getMediaContainer(filePath: string): MediaContainer | null {
+  const ext = path.extname(filePath).toLowerCase();
+  if (MP4_EXTENSIONS.has(ext)) return 'mp4';
+  if (WEBM_EXTENSIONS.has(ext)) return 'webm';
+  if (MP3_EXTENSIONS.has(ext)) return 'mp3';
+  return null;
+}
+
+export async function probeMedia(filePath: string): Promise<MediaProbeResult> {
+  const container = getMediaContainer(filePath);
+  if (!container) return { container: null, durationSec: null };
+  let stat: Stats;
+  try {
+    stat = await fs.stat(filePath);
+  } catch {
+    return { container, durationSec: null };
+  }
+  const cached = probeCache.get(filePath);
+  if (cached && cached.mtimeMs === stat.mtimeMs && cached.size === stat.size) {
+    return cached.result;
+  }
+
+  let durationSec: number | null = null;
+  let handle: fs.FileHandle | null = null;
+  try {
+    handle = await fs.open(filePath, 'r');
+    if (container === 'mp4') durationSec = await probeMp4(handle, stat.size);
+    if (container === 'webm') durationSec = await probeWebm(handle);
+    if (container === 'mp3') durationSec = await probeMp3(handle, stat.size);
+  } catch (err) {
+    console.warn('[probe] failed', filePath, (err as Error).message);
+  } finally {
+    await handle?.close().catch(() => undefined);
+  }
+
+  const result: MediaProbeResult = {
+    container,
+    durationSec:
+      durationSec !== null && Number.isFinite(durationSec) && durationSec > 0
+        ? durationSec
+        : null,
+  };
+  probeCache.set(filePath, { mtimeMs: stat.mtimeMs, size: stat.size, result });
+  return result;
+}
+
+export async function probeMediaDuration(filePath: string): Promise<number | null> {
+  const result = await probeMedia(filePath);
+  return result.durationSec;
+}
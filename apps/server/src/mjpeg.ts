@@ -0,0 +1,102 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { CaptureFrame } from './capture.js';
+
+export type MjpegSource = {
+  getFrame: () => CaptureFrame | null;
+  subscribe: (listener: (frame: CaptureFrame) => void) => () => void;
+  // Fires when the source goes away for good; the response is then ended.
+  onEnd?: (listener: () => void) => () => void;
+};
+
+export type MjpegOptions = {
+  // Per-client cap; frames arriving faster than this are coalesced.
+  maxFps: number;
+};
+
+const BOUNDARY = 'chibaframe';
+
+export const MJPEG_DEFAULT_FPS = 5;
+export const MJPEG_MAX_FPS = 15;
+
+// Parses a client-requested `fps`, falling back to the default and never
+// exceeding the server-wide cap.
+export function parseMjpegFps(value: unknown): number {
+  const raw = Array.isArray(value) ? value[0] : value;
+  const parsed = typeof raw === 'string' ? Number.parseFloat(raw) : Number.NaN;
+  if (!Number.isFinite(parsed) || parsed <= 0) return MJPEG_DEFAULT_FPS;
+  return Math.min(MJPEG_MAX_FPS, parsed);
+}
+
+// Streams frames as multipart/x-mixed-replace. A client only ever holds the
+// newest frame: while its socket is backed up (write() returned false) or it
+// is inside its frame interval, newer frames replace the pending one instead
+// of queueing, so a slow screen lags by at most one frame and never grows the
+// server's memory.
+export function streamMjpeg(
+  req: IncomingMessage,
+  res: ServerResponse,
+  source: MjpegSource,
+  options: MjpegOptions
+) {
+  const minIntervalMs = 1000 / options.maxFps;
+  let pending: CaptureFrame | null = source.getFrame();
+  let lastSentAt = 0;
+  let lastSentFrame: CaptureFrame | null = null;
+  let draining = false;
+  let timer: NodeJS.Timeout | null = null;
+  let closed = false;
+
+  res.writeHead(200, {
+    'Content-Type': `multipart/x-mixed-replace; boundary=${BOUNDARY}`,
+    'Cache-Control': 'no-store, no-cache, must-revalidate',
+    Connection: 'keep-alive',
+    Pragma: 'no-cache',
+  });
+  res.flushHeaders();
+
+  const flush = () => {
+    if (closed || draining || !pending) return;
+    const wait = lastSentAt + minIntervalMs - Date.now();
+    if (wait > 0) {
+      timer ??= setTimeout(() => {
+        timer = null;
+        flush();
+      }, wait);
+      return;
+    }
+    const frame = pending;
+    pending = null;
+    if (frame === lastSentFrame) return;
+    lastSentFrame = frame;
+    lastSentAt = Date.now();
+    res.write(
+      `--${BOUNDARY}\r\nContent-Type: image/jpeg\r\nContent-Length: ${frame.buffer.length}\r\n\r\n`
+    );
+    res.write(frame.buffer);
+    if (!res.write('\r\n')) {
+      draining = true;
+      res.once('drain', () => {
+        draining = false;
+        flush();
+      });
+    }
+  };
+
+  const unsubscribe = source.subscribe((frame) => {
+    pending = frame;
+    flush();
+  });
+
+  const offEnd = source.onEnd?.(() => {
+    if (!closed) res.end();
+  });
+
+  req.on('close', () => {
+    closed = true;
+    unsubscribe();
+    offEnd?.();
+    if (timer) clearTimeout(timer);
+  });
+
+  flush();
+}
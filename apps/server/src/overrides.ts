@@ -0,0 +1,140 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs/promises';
+
+export type ScheduleOverride = {
+  id: string;
+  channelId: string;
+  start: string;
+  end: string;
+  program?: string;
+  url?: string;
+  title?: string;
+  subtitle?: string;
+  createdAt: number;
+};
+
+export type ScheduleOverrideInput = Partial<Omit<ScheduleOverride, 'id' | 'createdAt'>>;
+
+export class OverrideError extends Error {
+  constructor(
+    message: string,
+    // Set when `program` matched nothing, so the caller can offer choices.
+    readonly validTitles?: string[]
+  ) {
+    super(message);
+  }
+}
+
+// Program titles per channel id, used to check `program` before saving.
+export type OverrideCatalog = Record<string, string[]>;
+
+type OverrideFile = {
+  overrides: ScheduleOverride[];
+};
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+export function validateOverride(
+  input: ScheduleOverrideInput,
+  catalog: OverrideCatalog
+): Omit<ScheduleOverride, 'id' | 'createdAt'> {
+  const channelIds = Object.keys(catalog);
+  if (!isString(input.channelId)) {
+    throw new OverrideError('channelId is required (use "*" for every channel)');
+  }
+  if (input.channelId !== '*' && !channelIds.includes(input.channelId)) {
+    throw new OverrideError(`unknown channel "${input.channelId}"`);
+  }
+  const startMs = isString(input.start) ? Date.parse(input.start) : NaN;
+  const endMs = isString(input.end) ? Date.parse(input.end) : NaN;
+  if (!Number.isFinite(startMs) || !Number.isFinite(endMs)) {
+    throw new OverrideError('start and end must be ISO timestamps');
+  }
+  if (endMs <= startMs) {
+    throw new OverrideError('end must be after start');
+  }
+  if (!isString(input.program) && !isString(input.url)) {
+    throw new OverrideError('either program or url is required');
+  }
+  // Without a url the override plays the matched program; the builder looks
+  // on the channel first and then every other channel, so accept any of those.
+  const allTitles = Array.from(new Set(Object.values(catalog).flat()));
+  if (!isString(input.url) && isString(input.program) && !allTitles.includes(input.program)) {
+    const validTitles = input.channelId === '*' ? allTitles : catalog[input.channelId];
+    throw new OverrideError(`unknown program "${input.program}"`, validTitles);
+  }
+  return {
+    channelId: input.channelId,
+    start: new Date(startMs).toISOString(),
+    end: new Date(endMs).toISOString(),
+    program: isString(input.program) ? input.program : undefined,
+    url: isString(input.url) ? input.url : undefined,
+    title: isString(input.title) ? input.title : undefined,
+    subtitle: isString(input.subtitle) ? input.subtitle : undefined,
+  };
+}
+
+export function createOverrideStore(filePath: string) {
+  let overrides: ScheduleOverride[] = [];
+
+  const pruneExpired = () => {
+    const now = Date.now();
+    const before = overrides.length;
+    overrides = overrides.filter((override) => Date.parse(override.end) > now);
+    return overrides.length !== before;
+  };
+
+  const save = async () => {
+    const payload: OverrideFile = { overrides };
+    await fs.writeFile(filePath, `${JSON.stringify(payload, null, 2)}\n`, 'utf-8');
+  };
+
+  const load = async () => {
+    try {
+      const raw = await fs.readFile(filePath, 'utf-8');
+      const parsed = JSON.parse(raw) as Partial<OverrideFile>;
+      overrides = Array.isArray(parsed.overrides) ? parsed.overrides : [];
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn('[overrides] failed to load', (err as Error).message);
+      }
+      overrides = [];
+    }
+    if (pruneExpired()) await save();
+  };
+
+  const add = async (input: ScheduleOverrideInput, catalog: OverrideCatalog) => {
+    const override: ScheduleOverride = {
+      id: crypto.randomUUID(),
+      ...validateOverride(input, catalog),
+      createdAt: Date.now(),
+    };
+    pruneExpired();
+    overrides = [...overrides, override].sort(
+      (a, b) => Date.parse(a.start) - Date.parse(b.start)
+    );
+    await save();
+    return override;
+  };
+
+  const remove = async (id: string) => {
+    const next = overrides.filter((override) => override.id !== id);
+    if (next.length === overrides.length) return false;
+    overrides = next;
+    await save();
+    return true;
+  };
+
+  return {
+    filePath,
+    load,
+    add,
+    remove,
+    list: () => {
+      pruneExpired();
+      return overrides;
+    },
+  };
+}
@@ -0,0 +1,168 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs/promises';
+
+export type PairingCode = {
+  code: string;
+  screenId: string;
+  expiresAt: number;
+};
+
+export type PairingSession = {
+  token: string;
+  screenId: string;
+  createdAt: number;
+  lastUsedAt: number;
+};
+
+export type RedeemResult =
+  | { ok: true; session: PairingSession }
+  | { ok: false; error: 'invalid_code' | 'too_many_attempts' };
+
+type PairingFile = {
+  sessions: PairingSession[];
+};
+
+const CODE_LENGTH = 6;
+const CODE_TTL_MS = 10 * 60 * 1000;
+// Sessions survive restarts and only lapse after a week without use.
+const SESSION_IDLE_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_FAILED_ATTEMPTS = 10;
+const ATTEMPT_WINDOW_MS = 10 * 60 * 1000;
+
+export function createPairingStore(filePath: string) {
+  const codes = new Map<string, PairingCode>();
+  let sessions = new Map<string, PairingSession>();
+  const failures = new Map<string, { count: number; since: number }>();
+  let saveTimer: NodeJS.Timeout | null = null;
+
+  const save = async () => {
+    const payload: PairingFile = { sessions: Array.from(sessions.values()) };
+    await fs.writeFile(filePath, `${JSON.stringify(payload, null, 2)}\n`, 'utf-8');
+  };
+
+  // lastUsedAt changes on every verify; batch those writes.
+  const scheduleSave = () => {
+    if (saveTimer) return;
+    saveTimer = setTimeout(() => {
+      saveTimer = null;
+      save().catch((err) => console.warn('[pairing] failed to save', (err as Error).message));
+    }, 5000);
+  };
+
+  const pruneSessions = () => {
+    const cutoff = Date.now() - SESSION_IDLE_MS;
+    let changed = false;
+    sessions.forEach((session, token) => {
+      if (session.lastUsedAt < cutoff) {
+        sessions.delete(token);
+        changed = true;
+      }
+    });
+    return changed;
+  };
+
+  const load = async () => {
+    try {
+      const raw = await fs.readFile(filePath, 'utf-8');
+      const parsed = JSON.parse(raw) as Partial<PairingFile>;
+      const list = Array.isArray(parsed.sessions) ? parsed.sessions : [];
+      sessions = new Map(list.map((session) => [session.token, session]));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn('[pairing] failed to load', (err as Error).message);
+      }
+      sessions = new Map();
+    }
+    if (pruneSessions()) await save();
+  };
+
+  const issueCode = (screenId: string) => {
+    const inUse = new Set(Array.from(codes.values(), (entry) => entry.code));
+    let code = '';
+    do {
+      code = crypto.randomInt(0, 10 ** CODE_LENGTH).toString().padStart(CODE_LENGTH, '0');
+    } while (inUse.has(code));
+    const entry: PairingCode = { code, screenId, expiresAt: Date.now() + CODE_TTL_MS };
+    codes.set(screenId, entry);
+    return entry;
+  };
+
+  // The code a screen should display; a fresh one once the old one expires.
+  const getCode = (screenId: string) => {
+    const existing = codes.get(screenId);
+    return existing && existing.expiresAt > Date.now() ? existing : issueCode(screenId);
+  };
+
+  const isLockedOut = (ip: string) => {
+    const entry = failures.get(ip);
+    if (!entry) return false;
+    if (Date.now() - entry.since > ATTEMPT_WINDOW_MS) {
+      failures.delete(ip);
+      return false;
+    }
+    return entry.count >= MAX_FAILED_ATTEMPTS;
+  };
+
+  const recordFailure = (ip: string) => {
+    const entry = failures.get(ip);
+    if (entry && Date.now() - entry.since <= ATTEMPT_WINDOW_MS) {
+      entry.count += 1;
+    } else {
+      failures.set(ip, { count: 1, since: Date.now() });
+    }
+  };
+
+  const redeem = async (code: string, ip: string): Promise<RedeemResult> => {
+    if (isLockedOut(ip)) return { ok: false, error: 'too_many_attempts' };
+    const now = Date.now();
+    const match = Array.from(codes.values()).find(
+      (entry) => entry.code === code && entry.expiresAt > now
+    );
+    if (!match) {
+      recordFailure(ip);
+      return { ok: false, error: 'invalid_code' };
+    }
+    failures.delete(ip);
+    // Each code pairs one remote; the screen is shown a fresh one.
+    codes.delete(match.screenId);
+    const session: PairingSession = {
+      token: crypto.randomBytes(24).toString('base64url'),
+      screenId: match.screenId,
+      createdAt: now,
+      lastUsedAt: now,
+    };
+    pruneSessions();
+    sessions.set(session.token, session);
+    await save();
+    return { ok: true, session };
+  };
+
+  const verify = (token: string | undefined) => {
+    if (!token) return null;
+    const session = sessions.get(token);
+    if (!session) return null;
+    if (Date.now() - session.lastUsedAt > SESSION_IDLE_MS) {
+      sessions.delete(token);
+      scheduleSave();
+      return null;
+    }
+    session.lastUsedAt = Date.now();
+    scheduleSave();
+    return session;
+  };
+
+  const revoke = async (token: string) => {
+    if (!sessions.delete(token)) return false;
+    await save();
+    return true;
+  };
+
+  return {
+    filePath,
+    load,
+    getCode,
+    redeem,
+    verify,
+    revoke,
+  };
+}
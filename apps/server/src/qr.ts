@@ -0,0 +1,428 @@
+import zlib from 'node:zlib';
+
+// Minimal QR Code encoder (byte mode, versions 1-40) so kiosks on an offline
+// LAN can render remote/broadcast codes without a third-party service. The
+// layout follows ISO/IEC 18004; see https://www.nayuki.io/page/qr-code-generator-library
+// for a readable walkthrough of the same steps.
+
+export type QrErrorCorrection = 'L' | 'M' | 'Q' | 'H';
+
+export type QrMatrix = boolean[][];
+
+export type QrRenderOptions = {
+  // Target edge length in pixels; PNGs snap down to a whole pixel per module.
+  size?: number;
+  // Quiet zone in modules.
+  margin?: number;
+  foreground?: string;
+  background?: string;
+};
+
+const ECC_INDEX: Record<QrErrorCorrection, number> = { L: 0, M: 1, Q: 2, H: 3 };
+const FORMAT_BITS: Record<QrErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+// Indexed by [ecc][version]; index 0 is unused.
+const ECC_CODEWORDS_PER_BLOCK = [
+  [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+];
+
+const ECC_BLOCKS = [
+  [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+];
+
+const MIN_VERSION = 1;
+const MAX_VERSION = 40;
+
+const getBit = (value: number, index: number) => ((value >>> index) & 1) !== 0;
+
+const getRawDataModules = (version: number) => {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignCount = Math.floor(version / 7) + 2;
+    result -= (25 * alignCount - 10) * alignCount - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+};
+
+const getDataCodewords = (version: number, ecc: QrErrorCorrection) => {
+  const index = ECC_INDEX[ecc];
+  return (
+    Math.floor(getRawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[index][version] * ECC_BLOCKS[index][version]
+  );
+};
+
+const getAlignmentPositions = (version: number) => {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const size = version * 4 + 17;
+  const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const result = [6];
+  for (let pos = size - 7; result.length < count; pos -= step) {
+    result.splice(1, 0, pos);
+  }
+  return result;
+};
+
+// GF(2^8) arithmetic for the Reed-Solomon error correction codewords.
+const gfMultiply = (x: number, y: number) => {
+  let z = 0;
+  for (let i = 7; i >= 0; i -= 1) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const reedSolomonDivisor = (degree: number) => {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i += 1) {
+    for (let j = 0; j < result.length; j += 1) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+};
+
+const reedSolomonRemainder = (data: number[], divisor: number[]) => {
+  const result = divisor.map(() => 0);
+  data.forEach((byte) => {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coef, index) => {
+      result[index] ^= gfMultiply(coef, factor);
+    });
+  });
+  return result;
+};
+
+const encodeData = (bytes: Uint8Array, version: number, ecc: QrErrorCorrection) => {
+  const bits: number[] = [];
+  const push = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i -= 1) bits.push((value >>> i) & 1);
+  };
+  push(0b0100, 4);
+  push(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach((byte) => push(byte, 8));
+
+  const capacity = getDataCodewords(version, ecc) * 8;
+  push(0, Math.min(4, capacity - bits.length));
+  push(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) push(pad, 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((acc, bit) => (acc << 1) | bit, 0));
+  }
+  return codewords;
+};
+
+const addEccAndInterleave = (data: number[], version: number, ecc: QrErrorCorrection) => {
+  const index = ECC_INDEX[ecc];
+  const blockCount = ECC_BLOCKS[index][version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[index][version];
+  const rawCodewords = Math.floor(getRawDataModules(version) / 8);
+  const shortBlocks = blockCount - (rawCodewords % blockCount);
+  const shortBlockLength = Math.floor(rawCodewords / blockCount);
+  const divisor = reedSolomonDivisor(eccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < blockCount; i += 1) {
+    const length = shortBlockLength - eccLength + (i < shortBlocks ? 0 : 1);
+    const block = data.slice(offset, offset + length);
+    offset += length;
+    const remainder = reedSolomonRemainder(block, divisor);
+    if (i < shortBlocks) block.push(0);
+    blocks.push(block.concat(remainder));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i += 1) {
+    blocks.forEach((block, j) => {
+      // Short blocks carry a placeholder byte so the columns line up.
+      if (i !== shortBlockLength - eccLength || j >= shortBlocks) result.push(block[i]);
+    });
+  }
+  return result;
+};
+
+const MASKS: Array<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+const FINDER_LIKE = [
+  [true, false, true, true, true, false, true, false, false, false, false],
+  [false, false, false, false, true, false, true, true, true, false, true],
+];
+
+const penaltyScore = (modules: QrMatrix) => {
+  const size = modules.length;
+  let score = 0;
+  const lines: boolean[][] = [];
+  for (let i = 0; i < size; i += 1) {
+    lines.push(modules[i]);
+    lines.push(modules.map((row) => row[i]));
+  }
+  lines.forEach((line) => {
+    let run = 1;
+    for (let i = 1; i <= size; i += 1) {
+      if (i < size && line[i] === line[i - 1]) {
+        run += 1;
+        continue;
+      }
+      if (run >= 5) score += run - 2;
+      run = 1;
+    }
+    for (let i = 0; i + 11 <= size; i += 1) {
+      if (FINDER_LIKE.some((pattern) => pattern.every((dark, k) => line[i + k] === dark))) {
+        score += 40;
+      }
+    }
+  });
+  let dark = 0;
+  for (let y = 0; y < size; y += 1) {
+    for (let x = 0; x < size; x += 1) {
+      if (modules[y][x]) dark += 1;
+      if (
+        x + 1 < size &&
+        y + 1 < size &&
+        modules[y][x] === modules[y][x + 1] &&
+        modules[y][x] === modules[y + 1][x] &&
+        modules[y][x] === modules[y + 1][x + 1]
+      ) {
+        score += 3;
+      }
+    }
+  }
+  const total = size * size;
+  score += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+  return score;
+};
+
+const buildMatrix = (codewords: number[], version: number, ecc: QrErrorCorrection) => {
+  const size = version * 4 + 17;
+  const modules: QrMatrix = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const reserved: QrMatrix = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const setFunction = (x: number, y: number, dark: boolean) => {
+    modules[y][x] = dark;
+    reserved[y][x] = true;
+  };
+
+  const drawFormat = (mask: number) => {
+    const data = (FORMAT_BITS[ecc] << 3) | mask;
+    let rem = data;
+    for (let i = 0; i < 10; i += 1) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+    const bits = ((data << 10) | rem) ^ 0x5412;
+    for (let i = 0; i <= 5; i += 1) setFunction(8, i, getBit(bits, i));
+    setFunction(8, 7, getBit(bits, 6));
+    setFunction(8, 8, getBit(bits, 7));
+    setFunction(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i += 1) setFunction(14 - i, 8, getBit(bits, i));
+    for (let i = 0; i < 8; i += 1) setFunction(size - 1 - i, 8, getBit(bits, i));
+    for (let i = 8; i < 15; i += 1) setFunction(8, size - 15 + i, getBit(bits, i));
+    setFunction(8, size - 8, true);
+  };
+
+  for (let i = 0; i < size; i += 1) {
+    setFunction(6, i, i % 2 === 0);
+    setFunction(i, 6, i % 2 === 0);
+  }
+  [
+    [3, 3],
+    [size - 4, 3],
+    [3, size - 4],
+  ].forEach(([cx, cy]) => {
+    for (let dy = -4; dy <= 4; dy += 1) {
+      for (let dx = -4; dx <= 4; dx += 1) {
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x < 0 || y < 0 || x >= size || y >= size) continue;
+        const dist = Math.max(Math.abs(dx), Math.abs(dy));
+        setFunction(x, y, dist !== 2 && dist !== 4);
+      }
+    }
+  });
+  const alignment = getAlignmentPositions(version);
+  const last = alignment.length - 1;
+  alignment.forEach((cx, i) => {
+    alignment.forEach((cy, j) => {
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+      for (let dy = -2; dy <= 2; dy += 1) {
+        for (let dx = -2; dx <= 2; dx += 1) {
+          setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+      }
+    });
+  });
+  drawFormat(0);
+  if (version >= 7) {
+    let rem = version;
+    for (let i = 0; i < 12; i += 1) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+    const bits = (version << 12) | rem;
+    for (let i = 0; i < 18; i += 1) {
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      setFunction(a, b, getBit(bits, i));
+      setFunction(b, a, getBit(bits, i));
+    }
+  }
+
+  // Codewords zigzag up and down two-module columns from the bottom right.
+  let bitIndex = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vert = 0; vert < size; vert += 1) {
+      for (let j = 0; j < 2; j += 1) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vert : vert;
+        if (reserved[y][x] || bitIndex >= codewords.length * 8) continue;
+        modules[y][x] = getBit(codewords[bitIndex >>> 3], 7 - (bitIndex & 7));
+        bitIndex += 1;
+      }
+    }
+  }
+
+  const applyMask = (mask: number) => {
+    for (let y = 0; y < size; y += 1) {
+      for (let x = 0; x < size; x += 1) {
+        if (!reserved[y][x] && MASKS[mask](x, y)) modules[y][x] = !modules[y][x];
+      }
+    }
+  };
+
+  let bestMask = 0;
+  let bestScore = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask += 1) {
+    applyMask(mask);
+    drawFormat(mask);
+    const score = penaltyScore(modules);
+    if (score < bestScore) {
+      bestMask = mask;
+      bestScore = score;
+    }
+    // Masks are XOR, so applying one twice restores the unmasked matrix.
+    applyMask(mask);
+  }
+  applyMask(bestMask);
+  drawFormat(bestMask);
+  return modules;
+};
+
+export function encodeQr(text: string, ecc: QrErrorCorrection = 'M'): QrMatrix {
+  const bytes = new TextEncoder().encode(text);
+  for (let version = MIN_VERSION; version <= MAX_VERSION; version += 1) {
+    const needed = 4 + (version < 10 ? 8 : 16) + bytes.length * 8;
+    if (needed <= getDataCodewords(version, ecc) * 8) {
+      const data = encodeData(bytes, version, ecc);
+      return buildMatrix(addEccAndInterleave(data, version, ecc), version, ecc);
+    }
+  }
+  throw new Error(`QR data too long (${bytes.length} bytes)`);
+}
+
+const HEX_COLOR = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+export const isQrColor = (value: string) => HEX_COLOR.test(value);
+
+const normalizeColor = (value: string | undefined, fallback: string) => {
+  const match = value ? HEX_COLOR.exec(value) : null;
+  if (!match) return fallback;
+  const hex = match[1];
+  return `#${hex.length === 3 ? hex.replace(/./g, (c) => c + c) : hex}`.toLowerCase();
+};
+
+const resolveOptions = (modules: QrMatrix, options: QrRenderOptions) => {
+  const margin = Math.max(0, Math.floor(options.margin ?? 2));
+  const extent = modules.length + margin * 2;
+  return {
+    margin,
+    extent,
+    size: Math.max(extent, Math.round(options.size ?? 200)),
+    foreground: normalizeColor(options.foreground, '#000000'),
+    background: normalizeColor(options.background, '#ffffff'),
+  };
+};
+
+export function renderQrSvg(modules: QrMatrix, options: QrRenderOptions = {}) {
+  const { margin, extent, size, foreground, background } = resolveOptions(modules, options);
+  let path = '';
+  modules.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark) path += `M${x + margin},${y + margin}h1v1h-1z`;
+    });
+  });
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${extent} ${extent}" shape-rendering="crispEdges"><rect width="100%" height="100%" fill="${background}"/><path d="${path}" fill="${foreground}"/></svg>`;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k += 1) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (buffer: Buffer) => {
+  let crc = 0xffffffff;
+  for (const byte of buffer) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const pngChunk = (type: string, data: Buffer) => {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+};
+
+const hexToRgb = (hex: string) => [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16));
+
+export function renderQrPng(modules: QrMatrix, options: QrRenderOptions = {}) {
+  const { margin, extent, size, foreground, background } = resolveOptions(modules, options);
+  const scale = Math.max(1, Math.floor(size / extent));
+  const pixels = extent * scale;
+  const dark = hexToRgb(foreground);
+  const light = hexToRgb(background);
+  const rowLength = 1 + pixels * 3;
+  const raw = Buffer.alloc(rowLength * pixels);
+  for (let py = 0; py < pixels; py += 1) {
+    const y = Math.floor(py / scale) - margin;
+    const offset = py * rowLength;
+    raw[offset] = 0;
+    for (let px = 0; px < pixels; px += 1) {
+      const x = Math.floor(px / scale) - margin;
+      const isDark = modules[y]?.[x] === true;
+      raw.set(isDark ? dark : light, offset + 1 + px * 3);
+    }
+  }
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(pixels, 0);
+  header.writeUInt32BE(pixels, 4);
+  header[8] = 8;
+  header[9] = 2;
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlib.deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
@@ -0,0 +1,136 @@
+export type ScreenNowPlaying = {
+  channelId?: string;
+  number?: string;
+  title?: string;
+  url?: string;
+  updatedAt: number;
+};
+
+export type ScreenEntry = {
+  screenId: string;
+  groups: string[];
+  online: boolean;
+  connections: number;
+  ip: string | null;
+  userAgent: string | null;
+  connectedAt: number;
+  disconnectedAt: number | null;
+  lastHeartbeatAt: number;
+  view: string | null;
+  now: ScreenNowPlaying | null;
+  appId: string | null;
+  volume: number | null;
+  muted: boolean | null;
+  stateUpdatedAt: number | null;
+};
+
+export type ScreenState = Pick<
+  ScreenEntry,
+  'screenId' | 'online' | 'view' | 'now' | 'appId' | 'volume' | 'muted' | 'stateUpdatedAt'
+>;
+
+export type ScreenConnection = {
+  groups: string[];
+  ip: string | null;
+  userAgent: string | null;
+  view: string | null;
+};
+
+export type ScreenStatusPatch = Partial<
+  Pick<ScreenEntry, 'groups' | 'view' | 'now' | 'appId' | 'volume' | 'muted'>
+>;
+
+// Offline screens stay listed so the fleet view can show what dropped out.
+const OFFLINE_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+export function createScreenRegistry() {
+  const screens = new Map<string, ScreenEntry>();
+
+  const pruneOffline = () => {
+    const cutoff = Date.now() - OFFLINE_RETENTION_MS;
+    screens.forEach((entry, screenId) => {
+      if (!entry.online && (entry.disconnectedAt ?? 0) < cutoff) {
+        screens.delete(screenId);
+      }
+    });
+  };
+
+  const connect = (screenId: string, connection: ScreenConnection) => {
+    const now = Date.now();
+    const existing = screens.get(screenId);
+    const entry: ScreenEntry = {
+      screenId,
+      groups: connection.groups,
+      online: true,
+      connections: existing?.online ? existing.connections + 1 : 1,
+      ip: connection.ip,
+      userAgent: connection.userAgent,
+      connectedAt: existing?.online ? existing.connectedAt : now,
+      disconnectedAt: null,
+      lastHeartbeatAt: now,
+      view: connection.view ?? existing?.view ?? null,
+      now: existing?.now ?? null,
+      appId: existing?.appId ?? null,
+      volume: existing?.volume ?? null,
+      muted: existing?.muted ?? null,
+      stateUpdatedAt: existing?.stateUpdatedAt ?? null,
+    };
+    screens.set(screenId, entry);
+    return entry;
+  };
+
+  const disconnect = (screenId: string) => {
+    const entry = screens.get(screenId);
+    if (!entry) return;
+    entry.connections = Math.max(0, entry.connections - 1);
+    if (entry.connections === 0) {
+      entry.online = false;
+      entry.disconnectedAt = Date.now();
+    }
+  };
+
+  const heartbeat = (screenId: string) => {
+    const entry = screens.get(screenId);
+    if (entry) entry.lastHeartbeatAt = Date.now();
+  };
+
+  const update = (screenId: string, patch: ScreenStatusPatch) => {
+    const entry = screens.get(screenId);
+    if (!entry) return;
+    Object.assign(entry, patch);
+    entry.lastHeartbeatAt = Date.now();
+    if (Object.keys(patch).some((key) => key !== 'groups')) {
+      entry.stateUpdatedAt = entry.lastHeartbeatAt;
+    }
+  };
+
+  const getState = (screenId: string): ScreenState | null => {
+    const entry = screens.get(screenId);
+    if (!entry) return null;
+    return {
+      screenId: entry.screenId,
+      online: entry.online,
+      view: entry.view,
+      now: entry.now,
+      appId: entry.appId,
+      volume: entry.volume,
+      muted: entry.muted,
+      stateUpdatedAt: entry.stateUpdatedAt,
+    };
+  };
+
+  return {
+    connect,
+    disconnect,
+    heartbeat,
+    update,
+    get: (screenId: string) => screens.get(screenId) ?? null,
+    getState,
+    list: () => {
+      pruneOffline();
+      return Array.from(screens.values()).sort((a, b) =>
+        a.screenId.localeCompare(b.screenId)
+      );
+    },
+  };
+}
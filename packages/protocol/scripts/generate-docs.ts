@@ -0,0 +1,29 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { renderProtocolReference } from "../src/index";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const docPath = path.resolve(__dirname, "../../../REMOTE_PROTOCOL.md");
+const START = "<!-- protocol-reference:start -->";
+const END = "<!-- protocol-reference:end -->";
+const checkOnly = process.argv.includes("--check");
+
+const current = await fs.readFile(docPath, "utf8");
+const start = current.indexOf(START);
+const end = current.indexOf(END);
+if (start === -1 || end < start) {
+  console.error(`[protocol-docs] ${docPath} is missing the ${START} / ${END} markers`);
+  process.exit(1);
+}
+
+const next = `${current.slice(0, start + START.length)}\n\n${renderProtocolReference()}\n${current.slice(end)}`;
+if (next === current) {
+  console.log("[protocol-docs] REMOTE_PROTOCOL.md is up to date");
+} else if (checkOnly) {
+  console.error("[protocol-docs] REMOTE_PROTOCOL.md is stale; run `pnpm protocol:docs`");
+  process.exitCode = 1;
+} else {
+  await fs.writeFile(docPath, next);
+  console.log("[protocol-docs] updated REMOTE_PROTOCOL.md");
+}
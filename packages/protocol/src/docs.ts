@@ -0,0 +1,127 @@
+import {
+  CONTROL_SUMMARIES,
+  ENVELOPE,
+  MESSAGES,
+  PROTOCOL_VERSION,
+  remoteControl,
+  SENSOR_SUMMARIES,
+  type MessageDirection,
+} from "./messages.js";
+import { validateMessage } from "./parse.js";
+import type { Shape } from "./schema.js";
+
+const DIRECTION_LABELS: Record<MessageDirection, string> = {
+  client: "client → server",
+  server: "server → client",
+  relay: "relayed between clients",
+  both: "client ↔ server",
+};
+
+const code = (text: string) => `\`${text.replace(/\|/g, "\\|")}\``;
+
+const compactJson = (value: unknown) =>
+  JSON.stringify(value, null, 1)
+    .replace(/\n\s*/g, " ")
+    .replace(/\[ /g, "[")
+    .replace(/ \]/g, "]");
+
+// Pretty-prints like JSON.stringify(value, null, 2) but keeps any object or
+// array that fits on one line together, so long examples stay scannable.
+const formatJson = (value: unknown, indent = ""): string => {
+  const compact = compactJson(value);
+  if (indent.length + compact.length <= 100 || !value || typeof value !== "object") {
+    return compact;
+  }
+  const inner = `${indent}  `;
+  if (Array.isArray(value)) {
+    const items = value.map((item) => `${inner}${formatJson(item, inner)}`);
+    return `[\n${items.join(",\n")}\n${indent}]`;
+  }
+  const entries = Object.entries(value).map(
+    ([key, item]) => `${inner}${JSON.stringify(key)}: ${formatJson(item, inner)}`
+  );
+  return `{\n${entries.join(",\n")}\n${indent}}`;
+};
+
+const renderFields = (shape: Shape) => {
+  const entries = Object.entries(shape);
+  if (!entries.length) return ["No fields."];
+  return [
+    "| Field | Type | Required |",
+    "| --- | --- | --- |",
+    ...entries.map(
+      ([name, field]) =>
+        `| ${code(name)} | ${code(field.describe)} | ${field.optional ? "no" : "yes"} |`
+    ),
+  ];
+};
+
+// Markdown for the generated half of REMOTE_PROTOCOL.md. Examples are
+// validated on the way out so the docs cannot drift from the schema.
+export function renderProtocolReference() {
+  const lines = [
+    `Protocol version: **${PROTOCOL_VERSION}**.`,
+    "",
+    "Every message is a JSON object with a `type`. Any message may also carry:",
+    "",
+    ...renderFields(ENVELOPE),
+    "",
+    "`target` is `all`, `screen:<id>` or `group:<name>`; only screens are filtered by it. `from` is stamped by the server on messages sent by a screen.",
+    "",
+    "Malformed messages, unknown types and server-only types sent by a client are not relayed; the sender gets an `error` reply instead.",
+    "",
+    "| Type | Direction | Summary |",
+    "| --- | --- | --- |",
+    ...Object.entries(MESSAGES).map(([type, spec]) => {
+      const firstSentence = spec.summary.split(". ")[0].replace(/\.$/, "");
+      return `| [${code(type)}](#message-${type}) | ${DIRECTION_LABELS[spec.direction]} | ${firstSentence}. |`;
+    }),
+  ];
+
+  Object.entries(MESSAGES).forEach(([type, spec]) => {
+    const example = { type, ...spec.example };
+    const result = validateMessage(example);
+    if (!result.ok) {
+      throw new Error(`Example for ${type} is invalid: ${result.error.message}`);
+    }
+    lines.push(
+      "",
+      `<a id="message-${type}"></a>`,
+      `### ${code(type)} (${DIRECTION_LABELS[spec.direction]})`,
+      "",
+      spec.summary,
+      "",
+      ...renderFields(spec.fields),
+      "",
+      "```json",
+      formatJson(example),
+      "```"
+    );
+  });
+
+  lines.push("", "### Control types", "");
+  Object.entries(remoteControl.variants).forEach(([type, variant]) => {
+    lines.push(
+      `#### ${code(type)}`,
+      "",
+      CONTROL_SUMMARIES[type as keyof typeof CONTROL_SUMMARIES],
+      "",
+      ...renderFields(variant.shape),
+      ""
+    );
+  });
+
+  lines.push(
+    "### Sensors",
+    "",
+    "Sensors an app lists in `controls.sensors` are offered on the phone remote. Once the viewer allows them, the remote sends them to the app as `control` messages (about ten per second at most).",
+    "",
+    "| Sensor | Sends |",
+    "| --- | --- |",
+    ...Object.entries(SENSOR_SUMMARIES).map(
+      ([sensor, summary]) => `| ${code(sensor)} | ${summary} |`
+    )
+  );
+
+  return `${lines.join("\n").trimEnd()}\n`;
+}
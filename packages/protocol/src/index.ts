@@ -0,0 +1,44 @@
+import type {
+  clientRole,
+  controlValue,
+  remoteControl,
+  screenSummary,
+  sensorKind,
+  viewMode,
+} from "./messages.js";
+import type { Infer } from "./schema.js";
+
+export {
+  CONTROL_SUMMARIES,
+  ENVELOPE,
+  ERROR_CODES,
+  MESSAGES,
+  PROTOCOL_VERSION,
+  SENSOR_SUMMARIES,
+  type Envelope,
+  type ErrorCode,
+  type MessageDirection,
+  type MessageOf,
+  type MessageSpec,
+  type MessageType,
+  type ProtocolMessage,
+} from "./messages.js";
+export {
+  createErrorMessage,
+  createWelcomeMessage,
+  isMessageType,
+  isSupportedProtocol,
+  parseClientMessage,
+  parseMessage,
+  validateMessage,
+  type ParseResult,
+  type ProtocolError,
+} from "./parse.js";
+export { renderProtocolReference } from "./docs.js";
+
+export type RemoteControl = Infer<typeof remoteControl>;
+export type ControlValue = Infer<typeof controlValue>;
+export type ScreenSummary = Infer<typeof screenSummary>;
+export type SensorKind = Infer<typeof sensorKind>;
+export type ClientRole = Infer<typeof clientRole>;
+export type ViewMode = Infer<typeof viewMode>;
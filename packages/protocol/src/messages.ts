@@ -0,0 +1,452 @@
+import {
+  array,
+  boolean,
+  discriminated,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  string,
+  union,
+  type Infer,
+  type InferShape,
+  type Shape,
+} from "./schema.js";
+
+// Bump when a message changes shape in a way older peers would misread.
+// Clients send it in `hello`; the server answers with `welcome` or an
+// `unsupported_protocol` error.
+export const PROTOCOL_VERSION = 1;
+
+// Who may send a message:
+// - client: clients to the server, which consumes it.
+// - server: only the server sends it; clients sending it are rejected.
+// - relay: any client; the server forwards it to the targeted peers.
+// - both: clients send it and the server answers or rebroadcasts it.
+export type MessageDirection = "client" | "server" | "relay" | "both";
+
+export type MessageSpec<S extends Shape = Shape> = {
+  direction: MessageDirection;
+  summary: string;
+  fields: S;
+  example: Record<string, unknown>;
+};
+
+const message = <S extends Shape>(spec: MessageSpec<S>) => spec;
+
+export const viewMode = oneOf("guide", "remote", "art");
+
+export const clientRole = oneOf("screen", "remote", "app");
+
+export const xyValue = object(
+  { x: number(), y: number() },
+  "{ x: number; y: number }"
+);
+
+export const controlValue = union(number(), string(), boolean(), xyValue);
+
+export const remoteControl = discriminated(
+  "type",
+  {
+    range: object({
+      id: string(),
+      label: string(),
+      min: number(),
+      max: number(),
+      step: optional(number()),
+      value: optional(number()),
+    }),
+    select: object({
+      id: string(),
+      label: string(),
+      options: array(
+        object(
+          { value: string(), label: string() },
+          "{ value: string; label: string }"
+        )
+      ),
+      value: optional(string()),
+    }),
+    toggle: object({
+      id: string(),
+      label: string(),
+      value: optional(boolean()),
+    }),
+    button: object({
+      id: string(),
+      label: string(),
+    }),
+    xy: object({
+      id: string(),
+      label: string(),
+      min: optional(number()),
+      max: optional(number()),
+      step: optional(number()),
+      value: optional(xyValue),
+    }),
+    color: object({
+      id: string(),
+      label: string(),
+      value: optional(string()),
+    }),
+    text: object({
+      id: string(),
+      label: string(),
+      placeholder: optional(string()),
+      maxLength: optional(number()),
+      value: optional(string()),
+    }),
+    trigger: object({
+      id: string(),
+      label: string(),
+    }),
+    group: object({
+      id: string(),
+      label: string(),
+      collapsed: optional(boolean()),
+    }),
+  },
+  "RemoteControl"
+);
+
+// One line per control type for the generated reference.
+export const CONTROL_SUMMARIES: Record<
+  keyof typeof remoteControl.variants,
+  string
+> = {
+  range: "A slider; sends a number between `min` and `max`.",
+  select: "A dropdown; sends the chosen option's `value`.",
+  toggle: "An on/off switch; sends a boolean.",
+  button: "A one-shot press; sends the press time in milliseconds.",
+  xy: "A 2D pad; sends `{ x, y }` with both axes between `min` (default 0) and `max` (default 1).",
+  color: "A color picker; sends a `#rrggbb` string.",
+  text: "A short text field; sends the string when submitted, cut to `maxLength` (default 120).",
+  trigger: "A hold button; sends `true` when pressed and `false` when released.",
+  group: "A section header, not an input. Controls after it, up to the next group, fold under it; `collapsed` starts it folded.",
+};
+
+export const sensorKind = oneOf("tilt", "shake", "mic");
+
+// What the phone remote streams, as ordinary `control` messages, for each
+// sensor an app asks for in `controls`.
+export const SENSOR_SUMMARIES: Record<Infer<typeof sensorKind>, string> = {
+  tilt: "`tiltX` and `tiltY`, from -1 to 1: left/right roll and forward/back pitch relative to how the phone was held when sensors were enabled.",
+  shake: "`shake` once per shake, with the peak acceleration in m/s².",
+  mic: "`micLevel`, from 0 to 1: the microphone's loudness.",
+};
+
+export const screenSummary = object(
+  { screenId: string(), groups: array(string()) },
+  "ScreenSummary"
+);
+
+export const ERROR_CODES = [
+  "invalid_json",
+  "invalid_message",
+  "unknown_type",
+  "unexpected_type",
+  "unsupported_protocol",
+  "unauthorized",
+] as const;
+
+// Every message may carry these next to its own fields.
+export const ENVELOPE = {
+  // "all", "screen:<id>" or "group:<name>"; omitted means every screen.
+  target: optional(string()),
+  // Stamped by the server on messages that came from a screen.
+  from: optional(string()),
+};
+
+export const MESSAGES = {
+  hello: message({
+    direction: "client",
+    summary:
+      "Introduces the client so the server can route to it. Screens pass a stable `screenId`, optional `groups` and the screen `token`; remotes may pass the `target` they drive and a pairing or admin `token`.",
+    fields: {
+      role: clientRole,
+      protocol: optional(number()),
+      token: optional(string()),
+      screenId: optional(nullable(string())),
+      groups: optional(array(string())),
+      view: optional(viewMode),
+    },
+    example: {
+      role: "screen",
+      protocol: PROTOCOL_VERSION,
+      screenId: "lobby-tv",
+      groups: ["hallway"],
+    },
+  }),
+  welcome: message({
+    direction: "server",
+    summary:
+      "Reply to `hello` when the client speaks a supported protocol version. It also says what the client's token allows: a paired remote only drives `pairedScreenId`.",
+    fields: {
+      protocol: number(),
+      serverTime: number(),
+      pairingRequired: boolean(),
+      pairedScreenId: nullable(string()),
+      admin: boolean(),
+    },
+    example: {
+      protocol: PROTOCOL_VERSION,
+      serverTime: 1767225600000,
+      pairingRequired: true,
+      pairedScreenId: "lobby-tv",
+      admin: false,
+    },
+  }),
+  pairing: message({
+    direction: "server",
+    summary:
+      "The pairing code a screen should show next to its remote QR. `null` when pairing is switched off or the screen did not send the screen token.",
+    fields: { code: nullable(string()), expiresAt: nullable(number()) },
+    example: { code: "482913", expiresAt: 1767226200000 },
+  }),
+  error: message({
+    direction: "server",
+    summary:
+      "Sent back to a client whose message was rejected. `ref` is the offending message type when known.",
+    fields: {
+      code: oneOf(...ERROR_CODES),
+      message: string(),
+      ref: optional(string()),
+    },
+    example: {
+      code: "invalid_message",
+      message: 'dir must be one of "up" | "down" (got "sideways")',
+      ref: "channel",
+    },
+  }),
+  controls: message({
+    direction: "relay",
+    summary:
+      "Registers an app's control schema and the phone sensors it wants. The server keeps the latest schema per `appId` on disk for `GET /api/controls/:appId`, and answers with a `control` message for every value a remote has set, so the app resumes where it was left.",
+    fields: {
+      appId: string(),
+      controls: array(remoteControl),
+      sensors: optional(array(sensorKind)),
+    },
+    example: {
+      appId: "my-art",
+      sensors: ["tilt", "mic"],
+      controls: [
+        {
+          id: "speed",
+          label: "Speed",
+          type: "range",
+          min: 0.2,
+          max: 3,
+          step: 0.1,
+          value: 1,
+        },
+        {
+          id: "palette",
+          label: "Palette",
+          type: "select",
+          options: [
+            { value: "aurora", label: "Aurora" },
+            { value: "ember", label: "Ember" },
+          ],
+          value: "aurora",
+        },
+        { id: "noise", label: "Noise", type: "toggle", value: true },
+        { id: "pulse", label: "Pulse", type: "button" },
+        { id: "motion", label: "Motion", type: "group" },
+        { id: "origin", label: "Origin", type: "xy", value: { x: 0.5, y: 0.5 } },
+        { id: "tint", label: "Tint", type: "color", value: "#7ed7ff" },
+        { id: "caption", label: "Caption", type: "text", maxLength: 40 },
+        { id: "freeze", label: "Freeze", type: "trigger" },
+      ],
+    },
+  }),
+  control: message({
+    direction: "relay",
+    summary:
+      "A control change from the phone remote. Apps apply it when `appId` matches; the `value` shape depends on the control type (see Control types). The server remembers the latest value per `controlId`.",
+    fields: {
+      appId: string(),
+      controlId: string(),
+      value: optional(controlValue),
+    },
+    example: { appId: "my-art", controlId: "speed", value: 1.6 },
+  }),
+  nav: message({
+    direction: "relay",
+    summary: "Moves the guide cursor.",
+    fields: { dir: oneOf("up", "down", "left", "right") },
+    example: { dir: "up" },
+  }),
+  channel: message({
+    direction: "relay",
+    summary: "Channel up/down.",
+    fields: { dir: oneOf("up", "down") },
+    example: { dir: "up" },
+  }),
+  day: message({
+    direction: "relay",
+    summary: "Pages the guide by day.",
+    fields: { dir: oneOf("prev", "next", "today") },
+    example: { dir: "next" },
+  }),
+  tune: message({
+    direction: "relay",
+    summary:
+      "Tunes to a channel number. `sync` marks a follow-the-leader tune from the server, which group screens align to the shared clock.",
+    fields: { number: string(), sync: optional(boolean()) },
+    example: { number: "12", target: "screen:lobby-tv" },
+  }),
+  dial: message({
+    direction: "relay",
+    summary:
+      "Digits typed on the remote keypad; `committed` tunes once entry is done.",
+    fields: { value: string(), committed: optional(boolean()) },
+    example: { value: "1", committed: false },
+  }),
+  volume: message({
+    direction: "relay",
+    summary: "Steps the screen volume.",
+    fields: { dir: oneOf("up", "down") },
+    example: { dir: "down" },
+  }),
+  mute: message({
+    direction: "relay",
+    summary: "Toggles mute, or sets it when `muted` is given.",
+    fields: { muted: optional(boolean()) },
+    example: {},
+  }),
+  select: message({
+    direction: "relay",
+    summary: "Activates the highlighted guide entry, or pauses the art view.",
+    fields: {},
+    example: {},
+  }),
+  guide: message({
+    direction: "relay",
+    summary: "Returns the screen to the guide.",
+    fields: {},
+    example: {},
+  }),
+  info: message({
+    direction: "relay",
+    summary: "Toggles the player HUD while a program is playing.",
+    fields: {},
+    example: {},
+  }),
+  reload: message({
+    direction: "relay",
+    summary: "Asks the targeted screens to reload the page.",
+    fields: {},
+    example: { target: "screen:lobby-tv" },
+  }),
+  app: message({
+    direction: "relay",
+    summary: "A screen reporting which app (if any) is on air.",
+    fields: { appId: optional(nullable(string())) },
+    example: { appId: "gen-art" },
+  }),
+  now: message({
+    direction: "relay",
+    summary: "A screen reporting what it is playing.",
+    fields: {
+      channelId: optional(string()),
+      number: optional(string()),
+      title: optional(string()),
+      url: optional(string()),
+    },
+    example: {
+      channelId: "duck",
+      number: "12",
+      title: "Duck Pond",
+      from: "lobby-tv",
+    },
+  }),
+  status: message({
+    direction: "relay",
+    summary:
+      "A screen reporting its view and audio state. Only remotes and apps receive it.",
+    fields: {
+      view: optional(viewMode),
+      volume: optional(number()),
+      muted: optional(boolean()),
+    },
+    example: { view: "guide", volume: 0.6, muted: false, from: "lobby-tv" },
+  }),
+  godselect: message({
+    direction: "relay",
+    summary: "Plays an arbitrary URL on a channel without touching the schedule.",
+    fields: { channelId: string(), url: string() },
+    example: { channelId: "duck", url: "/media/clips/pond.mp4" },
+  }),
+  display: message({
+    direction: "relay",
+    summary: "Display tuning from the debug panel. `null` resets a value.",
+    fields: {
+      scale: optional(nullable(number())),
+      textScale: optional(nullable(number())),
+      hours: optional(nullable(number())),
+      theme: optional(nullable(string())),
+      screenId: optional(nullable(string())),
+    },
+    example: { scale: 1.1, theme: null },
+  }),
+  takeover: message({
+    direction: "both",
+    summary:
+      "Starts (`active: true`) or ends a network-wide takeover. The server stores it, stamps `startedAt` and rebroadcasts it.",
+    fields: {
+      active: boolean(),
+      url: optional(string()),
+      title: optional(string()),
+      message: optional(string()),
+      until: optional(nullable(number())),
+      startedAt: optional(number()),
+    },
+    example: {
+      active: true,
+      title: "Dinner",
+      message: "Food is ready in the dome.",
+    },
+  }),
+  clock: message({
+    direction: "both",
+    summary:
+      "Clock sync ping. The server echoes `clientSentAt` and adds `serverTime`.",
+    fields: { clientSentAt: number(), serverTime: optional(number()) },
+    example: { clientSentAt: 1767225600000 },
+  }),
+  index: message({
+    direction: "server",
+    summary: "The guide index was rebuilt; screens refetch `/api/index`.",
+    fields: { source: optional(string()) },
+    example: { source: "toml" },
+  }),
+  screens: message({
+    direction: "server",
+    summary:
+      "Online screens, sent to remotes and apps whenever the list changes.",
+    fields: { screens: array(screenSummary) },
+    example: { screens: [{ screenId: "lobby-tv", groups: ["hallway"] }] },
+  }),
+  group: message({
+    direction: "server",
+    summary:
+      "A screen's resolved groups and the playback tolerance it should hold to its peers.",
+    fields: { groups: array(string()), syncToleranceMs: nullable(number()) },
+    example: { groups: ["hallway"], syncToleranceMs: 100 },
+  }),
+} satisfies Record<string, MessageSpec>;
+
+export type MessageType = keyof typeof MESSAGES;
+
+export type ErrorCode = (typeof ERROR_CODES)[number];
+
+export type Envelope = InferShape<typeof ENVELOPE>;
+
+export type MessageOf<K extends MessageType> = { type: K } & InferShape<
+  (typeof MESSAGES)[K]["fields"]
+> &
+  Envelope;
+
+export type ProtocolMessage = { [K in MessageType]: MessageOf<K> }[MessageType];
@@ -0,0 +1,99 @@
+import {
+  ENVELOPE,
+  MESSAGES,
+  PROTOCOL_VERSION,
+  type ErrorCode,
+  type MessageOf,
+  type MessageType,
+  type ProtocolMessage,
+} from "./messages.js";
+
+export type ProtocolError = {
+  code: ErrorCode;
+  message: string;
+  ref?: string;
+};
+
+export type ParseResult =
+  | { ok: true; message: ProtocolMessage }
+  | { ok: false; error: ProtocolError };
+
+export const isMessageType = (type: unknown): type is MessageType =>
+  typeof type === "string" && Object.hasOwn(MESSAGES, type);
+
+// Checks an already-decoded value against the message catalogue.
+export function validateMessage(value: unknown): ParseResult {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return {
+      ok: false,
+      error: { code: "invalid_message", message: "message must be a JSON object" },
+    };
+  }
+  const type = (value as Record<string, unknown>).type;
+  if (!isMessageType(type)) {
+    return {
+      ok: false,
+      error: {
+        code: "unknown_type",
+        message: `unknown message type ${JSON.stringify(type)}`,
+        ref: typeof type === "string" ? type : undefined,
+      },
+    };
+  }
+  const record = value as Record<string, unknown>;
+  const fields = { ...ENVELOPE, ...MESSAGES[type].fields };
+  for (const [key, field] of Object.entries(fields)) {
+    const message = field.check(record[key], key);
+    if (message) {
+      return { ok: false, error: { code: "invalid_message", message, ref: type } };
+    }
+  }
+  return { ok: true, message: value as ProtocolMessage };
+}
+
+export function parseMessage(raw: string): ParseResult {
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    return {
+      ok: false,
+      error: { code: "invalid_json", message: "message is not valid JSON" },
+    };
+  }
+  return validateMessage(value);
+}
+
+// Like `parseMessage`, but also refuses types only the server may send.
+export function parseClientMessage(raw: string): ParseResult {
+  const result = parseMessage(raw);
+  if (result.ok && MESSAGES[result.message.type].direction === "server") {
+    return {
+      ok: false,
+      error: {
+        code: "unexpected_type",
+        message: `${result.message.type} is only sent by the server`,
+        ref: result.message.type,
+      },
+    };
+  }
+  return result;
+}
+
+// Clients that never sent a version predate the handshake and speak v1.
+export const isSupportedProtocol = (version: number | undefined) =>
+  version === undefined || version === PROTOCOL_VERSION;
+
+export const createErrorMessage = (error: ProtocolError): MessageOf<"error"> => ({
+  type: "error",
+  ...error,
+});
+
+export const createWelcomeMessage = (
+  auth: Pick<MessageOf<"welcome">, "pairingRequired" | "pairedScreenId" | "admin">
+): MessageOf<"welcome"> => ({
+  type: "welcome",
+  protocol: PROTOCOL_VERSION,
+  serverTime: Date.now(),
+  ...auth,
+});
@@ -0,0 +1,164 @@
+// A deliberately tiny runtime schema: enough to validate WebSocket messages,
+// infer their TypeScript types and render the protocol reference from the same
+// definitions.
+
+export type Schema<T> = {
+  // Human readable type used in the generated docs, e.g. `"up" | "down"`.
+  describe: string;
+  optional: boolean;
+  check: (value: unknown, path: string) => string | null;
+  // Phantom field so `Infer` can recover `T`; never set at runtime.
+  readonly __type?: T;
+};
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export type Shape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: S[K]["optional"] extends true ? K : never;
+}[keyof S];
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+export type InferShape<S extends Shape> = Simplify<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } & {
+    [K in OptionalKeys<S>]?: Infer<S[K]>;
+  }
+>;
+
+type OptionalSchema<T> = Schema<T | undefined> & { optional: true };
+
+const describeValue = (value: unknown) =>
+  value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+
+const expected = (path: string, what: string, value: unknown) =>
+  `${path} must be ${what} (got ${describeValue(value)})`;
+
+export const string = (): Schema<string> => ({
+  describe: "string",
+  optional: false,
+  check: (value, path) =>
+    typeof value === "string" ? null : expected(path, "a string", value),
+});
+
+export const number = (): Schema<number> => ({
+  describe: "number",
+  optional: false,
+  check: (value, path) =>
+    typeof value === "number" && Number.isFinite(value)
+      ? null
+      : expected(path, "a finite number", value),
+});
+
+export const boolean = (): Schema<boolean> => ({
+  describe: "boolean",
+  optional: false,
+  check: (value, path) =>
+    typeof value === "boolean" ? null : expected(path, "a boolean", value),
+});
+
+export const oneOf = <const T extends readonly (string | number)[]>(
+  ...values: T
+): Schema<T[number]> => {
+  const describe = values.map((value) => JSON.stringify(value)).join(" | ");
+  return {
+    describe,
+    optional: false,
+    check: (value, path) =>
+      values.includes(value as T[number])
+        ? null
+        : `${path} must be one of ${describe} (got ${JSON.stringify(value)})`,
+  };
+};
+
+export const array = <T>(item: Schema<T>): Schema<T[]> => ({
+  describe: `${item.describe}[]`,
+  optional: false,
+  check: (value, path) => {
+    if (!Array.isArray(value)) return expected(path, "an array", value);
+    for (let index = 0; index < value.length; index += 1) {
+      const error = item.check(value[index], `${path}[${index}]`);
+      if (error) return error;
+    }
+    return null;
+  },
+});
+
+export const optional = <T>(schema: Schema<T>): OptionalSchema<T> => ({
+  describe: schema.describe,
+  optional: true,
+  check: (value, path) =>
+    value === undefined ? null : schema.check(value, path),
+});
+
+export const nullable = <T>(schema: Schema<T>): Schema<T | null> => ({
+  describe: `${schema.describe} | null`,
+  optional: false,
+  check: (value, path) => (value === null ? null : schema.check(value, path)),
+});
+
+export const union = <const T extends readonly Schema<unknown>[]>(
+  ...schemas: T
+): Schema<Infer<T[number]>> => {
+  const describe = schemas.map((schema) => schema.describe).join(" | ");
+  return {
+    describe,
+    optional: false,
+    check: (value, path) =>
+      schemas.some((schema) => !schema.check(value, path))
+        ? null
+        : expected(path, describe, value),
+  };
+};
+
+// Unknown keys are allowed so older servers keep relaying fields added by
+// newer clients; only the declared ones are checked.
+export const object = <S extends Shape>(
+  shape: S,
+  describe = "object"
+): Schema<InferShape<S>> & { shape: S } => ({
+  describe,
+  optional: false,
+  shape,
+  check: (value, path) => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      return expected(path, "an object", value);
+    }
+    const record = value as Record<string, unknown>;
+    for (const [key, field] of Object.entries(shape)) {
+      const error = field.check(record[key], path ? `${path}.${key}` : key);
+      if (error) return error;
+    }
+    return null;
+  },
+});
+
+// Objects told apart by a literal `key`, e.g. control definitions by `type`.
+export const discriminated = <
+  K extends string,
+  const M extends Record<string, Schema<unknown>>,
+>(
+  key: K,
+  variants: M,
+  describe: string
+): Schema<
+  { [V in keyof M]: Infer<M[V]> & { [P in K]: V } }[keyof M]
+> & { variants: M } => ({
+  describe,
+  optional: false,
+  variants,
+  check: (value, path) => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      return expected(path, "an object", value);
+    }
+    const tag = (value as Record<string, unknown>)[key];
+    const variant = typeof tag === "string" ? variants[tag] : undefined;
+    if (!variant) {
+      return `${path}.${key} must be one of ${Object.keys(variants)
+        .map((name) => JSON.stringify(name))
+        .join(" | ")} (got ${JSON.stringify(tag)})`;
+    }
+    return variant.check(value, path);
+  },
+});